@@ -0,0 +1,361 @@
+/**
+ * Binary asset cache for VMS SDK.
+ * Keeps downloaded assets as raw bytes in Cache Storage or IndexedDB instead
+ * of base64 strings in localStorage, with the same TTL semantics as BrowserCache.
+ */
+
+import type {
+  AssetCacheEntry,
+  AssetStore,
+  CacheGetOptions,
+  CacheValidators
+} from '../types/cache.js'
+import type { AssetStorage } from '../types/config.js'
+import { IndexedDBStore, isQuotaError } from './storage.js'
+import { Logger } from './logger.js'
+
+/**
+ * Name of the Cache Storage cache holding assets.
+ */
+const CACHE_STORAGE_NAME = 'vibe-cms-assets'
+
+/**
+ * Synthetic origin for Cache Storage requests; cache keys become its paths.
+ */
+const CACHE_STORAGE_ORIGIN = 'https://vibe-cms-assets.invalid/'
+
+/**
+ * Headers carrying entry metadata in Cache Storage responses.
+ */
+const META_HEADERS = {
+  timestamp: 'X-VMS-Cached-At',
+  ttl: 'X-VMS-TTL',
+  contentLength: 'X-VMS-Content-Length',
+  fileName: 'X-VMS-File-Name',
+} as const
+
+/**
+ * Asset store backed by the Cache Storage API.
+ */
+export class CacheStorageAssetStore implements AssetStore {
+  private readonly cacheStorage: CacheStorage
+  private cache: Promise<Cache> | null = null
+
+  constructor(cacheStorage: CacheStorage = caches) {
+    this.cacheStorage = cacheStorage
+  }
+
+  async get(key: string): Promise<AssetCacheEntry | null> {
+    const cache = await this.open()
+    const response = await cache.match(this.requestFor(key))
+    if (!response) {
+      return null
+    }
+
+    const { headers } = response
+    const fileName = headers.get(META_HEADERS.fileName)
+    const etag = headers.get('ETag')
+    const lastModified = headers.get('Last-Modified')
+    const data = await response.arrayBuffer()
+
+    return {
+      data,
+      contentType: headers.get('Content-Type') || 'application/octet-stream',
+      contentLength: Number(headers.get(META_HEADERS.contentLength)) || data.byteLength,
+      timestamp: Number(headers.get(META_HEADERS.timestamp)),
+      ttl: Number(headers.get(META_HEADERS.ttl)),
+      ...(fileName ? { fileName: decodeURIComponent(fileName) } : {}),
+      ...(etag ? { etag } : {}),
+      ...(lastModified ? { lastModified } : {}),
+    }
+  }
+
+  async put(key: string, entry: AssetCacheEntry): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': entry.contentType,
+      [META_HEADERS.timestamp]: String(entry.timestamp),
+      [META_HEADERS.ttl]: String(entry.ttl),
+      [META_HEADERS.contentLength]: String(entry.contentLength),
+    }
+    if (entry.fileName) {
+      headers[META_HEADERS.fileName] = encodeURIComponent(entry.fileName)
+    }
+    if (entry.etag) {
+      headers['ETag'] = entry.etag
+    }
+    if (entry.lastModified) {
+      headers['Last-Modified'] = entry.lastModified
+    }
+
+    const cache = await this.open()
+    await cache.put(this.requestFor(key), new Response(entry.data, { headers }))
+  }
+
+  async delete(key: string): Promise<void> {
+    const cache = await this.open()
+    await cache.delete(this.requestFor(key))
+  }
+
+  async keys(): Promise<string[]> {
+    const cache = await this.open()
+    const requests = await cache.keys()
+    return requests.map(request => decodeURIComponent(request.url.slice(CACHE_STORAGE_ORIGIN.length)))
+  }
+
+  private open(): Promise<Cache> {
+    if (!this.cache) {
+      this.cache = this.cacheStorage.open(CACHE_STORAGE_NAME)
+    }
+    return this.cache
+  }
+
+  private requestFor(key: string): string {
+    return `${CACHE_STORAGE_ORIGIN}${encodeURIComponent(key)}`
+  }
+}
+
+/**
+ * Asset store backed by IndexedDB, which stores ArrayBuffers natively.
+ */
+export class IndexedDBAssetStore implements AssetStore {
+  private readonly store: IndexedDBStore
+
+  constructor(factory?: IDBFactory) {
+    this.store = new IndexedDBStore(CACHE_STORAGE_NAME, 'assets', factory)
+  }
+
+  async get(key: string): Promise<AssetCacheEntry | null> {
+    const entry = await this.store.request('readonly', store => store.get(key))
+    return entry ?? null
+  }
+
+  async put(key: string, entry: AssetCacheEntry): Promise<void> {
+    await this.store.request('readwrite', store => store.put(entry, key))
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.request('readwrite', store => store.delete(key))
+  }
+
+  keys(): Promise<string[]> {
+    return this.store.keys()
+  }
+}
+
+/**
+ * Pick the binary store for an asset storage setting.
+ * Returns null when assets should be cached in the content cache's storage.
+ */
+export function createAssetStore(assetStorage: AssetStorage): AssetStore | null {
+  if (typeof assetStorage === 'object') {
+    return assetStorage
+  }
+
+  const hasCacheStorage = typeof caches !== 'undefined'
+  const hasIndexedDB = typeof indexedDB !== 'undefined'
+
+  if (assetStorage === 'cache-storage' || (assetStorage === 'auto' && hasCacheStorage)) {
+    return hasCacheStorage ? new CacheStorageAssetStore() : null
+  }
+  if (assetStorage === 'indexeddb' || (assetStorage === 'auto' && hasIndexedDB)) {
+    return hasIndexedDB ? new IndexedDBAssetStore() : null
+  }
+  return null
+}
+
+/**
+ * A cached asset together with its freshness.
+ */
+export interface AssetCacheLookup {
+  /** The stored asset */
+  entry: AssetCacheEntry
+  /** Whether the entry's TTL has passed */
+  stale: boolean
+}
+
+/**
+ * Optional collaborators for an asset cache.
+ */
+export interface AssetCacheOptions {
+  /** Logger for failed writes (default: silent) */
+  logger?: Logger
+  /** Called on every lookup, with whether it was a hit */
+  onLookup?: (key: string, hit: boolean) => void
+  /** Called for every asset evicted to free up space */
+  onEvict?: (key: string) => void
+}
+
+/**
+ * TTL-aware cache of binary assets over an AssetStore.
+ * Store failures are treated as cache misses so downloads keep working.
+ * Entries are outside BrowserCache's LRU and its `maxEntries`/`maxBytes`;
+ * their TTL and the browser's quota for the store bound them.
+ */
+export class AssetCache {
+  private readonly store: AssetStore
+  private readonly ttl: number
+  private readonly logger: Logger
+  private readonly onLookup: ((key: string, hit: boolean) => void) | undefined
+  private readonly onEvict: ((key: string) => void) | undefined
+
+  constructor(store: AssetStore, ttl: number, options: AssetCacheOptions = {}) {
+    this.store = store
+    this.ttl = ttl
+    this.logger = options.logger ?? new Logger()
+    this.onLookup = options.onLookup
+    this.onEvict = options.onEvict
+  }
+
+  /**
+   * Get a cached asset. Expired entries are removed unless `allowStale` is set.
+   */
+  async get(key: string, options: CacheGetOptions = {}): Promise<AssetCacheLookup | null> {
+    const lookup = await this.read(key, options)
+    this.onLookup?.(key, lookup !== null && !lookup.stale)
+    return lookup
+  }
+
+  /**
+   * Get a cached asset without removing it or counting a lookup, e.g. for inspection.
+   */
+  async peek(key: string): Promise<AssetCacheEntry | null> {
+    try {
+      return await this.store.get(key)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Remove expired assets.
+   */
+  async removeExpired(): Promise<void> {
+    for (const key of await this.keys()) {
+      await this.read(key)
+    }
+  }
+
+  private async read(key: string, options: CacheGetOptions = {}): Promise<AssetCacheLookup | null> {
+    try {
+      const entry = await this.store.get(key)
+      if (!entry) {
+        return null
+      }
+
+      const stale = Date.now() - entry.timestamp > entry.ttl
+      if (stale && !options.allowStale) {
+        await this.store.delete(key)
+        return null
+      }
+
+      return { entry, stale }
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Cache an asset. When the store is full, expired assets are evicted, or
+   * else the oldest one, and the write is retried.
+   */
+  async set(
+    key: string,
+    asset: Pick<AssetCacheEntry, 'data' | 'contentType' | 'contentLength'> & { fileName?: string | undefined },
+    ttl?: number,
+    validators: CacheValidators = {}
+  ): Promise<void> {
+    const entry: AssetCacheEntry = {
+      data: asset.data,
+      contentType: asset.contentType,
+      contentLength: asset.contentLength,
+      ...(asset.fileName ? { fileName: asset.fileName } : {}),
+      timestamp: Date.now(),
+      ttl: ttl ?? this.ttl,
+      ...(validators.etag ? { etag: validators.etag } : {}),
+      ...(validators.lastModified ? { lastModified: validators.lastModified } : {}),
+    }
+
+    try {
+      for (;;) {
+        try {
+          await this.store.put(key, entry)
+          return
+        } catch (error) {
+          if (!isQuotaError(error) || !await this.evict()) {
+            throw error
+          }
+        }
+      }
+    } catch (error) {
+      // Quota exceeded or store unavailable, continue without caching
+      this.logger.warn('cache.write_failed', 'Asset cache storage failed, continuing without cache', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /**
+   * Free up space: remove every expired asset, or the oldest one if none has
+   * expired. Returns false if there is nothing to remove.
+   */
+  private async evict(): Promise<boolean> {
+    const now = Date.now()
+    const entries: Array<{ key: string; timestamp: number; expired: boolean }> = []
+    for (const key of await this.store.keys()) {
+      const entry = await this.store.get(key)
+      if (entry) {
+        entries.push({ key, timestamp: entry.timestamp, expired: now - entry.timestamp > entry.ttl })
+      }
+    }
+
+    const expired = entries.filter(entry => entry.expired)
+    const oldest = entries.reduce<(typeof entries)[number] | undefined>(
+      (result, entry) => (!result || entry.timestamp < result.timestamp ? entry : result),
+      undefined
+    )
+    const victims = expired.length ? expired : oldest ? [oldest] : []
+
+    for (const { key } of victims) {
+      await this.store.delete(key)
+      this.onEvict?.(key)
+    }
+    return victims.length > 0
+  }
+
+  /**
+   * Restart the TTL of an existing entry, e.g. after a 304 Not Modified.
+   */
+  async touch(key: string, ttl?: number): Promise<boolean> {
+    const lookup = await this.read(key, { allowStale: true })
+    if (!lookup) {
+      return false
+    }
+
+    const { entry } = lookup
+    await this.set(key, entry, ttl ?? entry.ttl, entry)
+    return true
+  }
+
+  /**
+   * Remove a cached asset.
+   */
+  async remove(key: string): Promise<void> {
+    try {
+      await this.store.delete(key)
+    } catch {
+      // Ignore removal errors
+    }
+  }
+
+  /**
+   * Get all cached asset keys, including expired entries.
+   */
+  async keys(): Promise<string[]> {
+    try {
+      return await this.store.keys()
+    } catch {
+      return []
+    }
+  }
+}
@@ -4,8 +4,12 @@
  */
 
 import type { AssetUrlOptions, DownloadAssetOptions, AssetData } from '../types/api.js'
+import type { CacheValidators } from '../types/cache.js'
 import type { BrowserCache } from './cache.js'
-import type { Fetcher } from './fetcher.js'
+import { ValidationError, createHttpError } from '../types/config.js'
+import type { RetryAttempt } from '../types/config.js'
+import { conditionalHeaders, readValidators, toRequestOptions, withRequestId } from './fetcher.js'
+import type { Fetcher, RequestOptions } from './fetcher.js'
 
 /**
  * Regex pattern for validating asset IDs.
@@ -13,6 +17,18 @@ import type { Fetcher } from './fetcher.js'
  */
 const ASSET_ID_PATTERN = /^[a-zA-Z0-9_-]+$/
 
+/**
+ * An asset read from the cache.
+ */
+interface CachedAsset {
+  /** The asset as returned to callers */
+  asset: AssetData
+  /** Whether the entry's TTL has passed */
+  stale: boolean
+  /** Validators for revalidating the entry */
+  validators: CacheValidators
+}
+
 /**
  * Asset manager class for handling file and image operations.
  */
@@ -41,11 +57,11 @@ export class AssetManager {
   generateAssetUrl(assetId: string, options: AssetUrlOptions = {}): string {
     // Validate asset ID format
     if (!assetId) {
-      throw new Error('VMS SDK: Asset ID is required')
+      throw new ValidationError('VMS SDK: Asset ID is required')
     }
 
     if (!ASSET_ID_PATTERN.test(assetId)) {
-      throw new Error(
+      throw new ValidationError(
         'VMS SDK: Invalid asset ID format. Must contain only letters, numbers, underscores, and hyphens.'
       )
     }
@@ -63,14 +79,14 @@ export class AssetManager {
 
     if (options.width !== undefined) {
       if (options.width <= 0) {
-        throw new Error('VMS SDK: Asset width must be a positive number')
+        throw new ValidationError('VMS SDK: Asset width must be a positive number')
       }
       params.append('width', options.width.toString())
     }
 
     if (options.height !== undefined) {
       if (options.height <= 0) {
-        throw new Error('VMS SDK: Asset height must be a positive number')
+        throw new ValidationError('VMS SDK: Asset height must be a positive number')
       }
       params.append('height', options.height.toString())
     }
@@ -90,16 +106,17 @@ export class AssetManager {
   async downloadAsset(assetId: string, options: DownloadAssetOptions = {}): Promise<AssetData> {
     // Validate asset ID
     if (!assetId) {
-      throw new Error('VMS SDK: Asset ID is required')
+      throw new ValidationError('VMS SDK: Asset ID is required')
     }
 
     if (!ASSET_ID_PATTERN.test(assetId)) {
-      throw new Error(
+      throw new ValidationError(
         'VMS SDK: Invalid asset ID format. Must contain only letters, numbers, underscores, and hyphens.'
       )
     }
 
-    const { useCache = true, cacheTtl, ...urlOptions } = options
+    // Cancellation options don't affect the cache key
+    const { useCache = true, cacheTtl, signal, timeout, ...urlOptions } = options
 
     // Generate cache key for this asset download
     const cacheKey = useCache ? this.cache.generateKey({
@@ -110,19 +127,10 @@ export class AssetManager {
       locale: this.locale
     }) : null
 
-    // Try to get from cache first
-    if (cacheKey && useCache) {
-      const cachedData = await this.cache.get<any>(cacheKey)
-      if (cachedData) {
-        // Convert base64 back to ArrayBuffer if it was cached as base64
-        if (typeof cachedData.data === 'string') {
-          return {
-            ...cachedData,
-            data: this.base64ToArrayBuffer(cachedData.data)
-          }
-        }
-        return cachedData as AssetData
-      }
+    // Try to get from cache first; expired entries are kept for revalidation
+    const cached = cacheKey ? await this.readCache(cacheKey, assetId) : null
+    if (cached && !cached.stale) {
+      return cached.asset
     }
 
     // Build request URL
@@ -137,14 +145,14 @@ export class AssetManager {
 
     if (urlOptions.width !== undefined) {
       if (urlOptions.width <= 0) {
-        throw new Error('VMS SDK: Asset width must be a positive number')
+        throw new ValidationError('VMS SDK: Asset width must be a positive number')
       }
       params.append('width', urlOptions.width.toString())
     }
 
     if (urlOptions.height !== undefined) {
       if (urlOptions.height <= 0) {
-        throw new Error('VMS SDK: Asset height must be a positive number')
+        throw new ValidationError('VMS SDK: Asset height must be a positive number')
       }
       params.append('height', urlOptions.height.toString())
     }
@@ -152,8 +160,17 @@ export class AssetManager {
     const fullEndpoint = `${endpoint}?${params.toString()}`
 
     try {
-      // Make request for binary data
-      const response = await this.makeAssetRequest(fullEndpoint)
+      // Make request for binary data, revalidating an expired cache entry
+      const response = await this.makeAssetRequest(fullEndpoint, {
+        ...toRequestOptions(options),
+        headers: conditionalHeaders(cached?.validators ?? {}),
+      })
+
+      // The cached copy is still current
+      if (response.status === 304 && cacheKey && cached) {
+        await (this.cache.assets ?? this.cache).touch(cacheKey, cacheTtl)
+        return cached.asset
+      }
 
       // Parse response headers
       const contentType = response.headers.get('content-type') || 'application/octet-stream'
@@ -182,13 +199,8 @@ export class AssetManager {
       }
 
       // Cache the result if caching is enabled
-      // Note: We convert ArrayBuffer to base64 for caching since ArrayBuffer cannot be JSON serialized
-      if (cacheKey && useCache) {
-        const cacheableData = {
-          ...assetData,
-          data: this.arrayBufferToBase64(data)
-        }
-        await this.cache.set(cacheKey, cacheableData, cacheTtl)
+      if (cacheKey) {
+        await this.writeCache(cacheKey, assetData, cacheTtl, readValidators(response))
       }
 
       return assetData
@@ -202,20 +214,21 @@ export class AssetManager {
   /**
    * Make a raw HTTP request for asset data.
    * This is a private method that handles the low-level HTTP request.
+   * A 304 Not Modified is returned as is for conditional requests.
    */
-  private async makeAssetRequest(endpoint: string): Promise<Response> {
-    // Use fetch directly for binary data to avoid JSON parsing
-    const baseUrl = this.fetcher['baseUrl']
-    const url = endpoint.startsWith('/') ? `${baseUrl}${endpoint}` : `${baseUrl}/${endpoint}`
-
-    const response = await fetch(url, {
+  private async makeAssetRequest(endpoint: string, options: RequestOptions = {}): Promise<Response> {
+    // Use the raw pipeline for binary data to avoid JSON parsing
+    const attempts: RetryAttempt[] = []
+    const response = await this.fetcher.raw(endpoint, {
+      ...options,
       method: 'GET',
       headers: {
         'Accept': '*/*', // Accept any content type for assets
+        ...(options.headers as Record<string, string> | undefined),
       },
-    })
+    }, attempts)
 
-    if (!response.ok) {
+    if (!response.ok && response.status !== 304) {
       // Handle error responses
       let errorMessage = `HTTP ${response.status}: ${response.statusText}`
 
@@ -238,12 +251,66 @@ export class AssetManager {
         // Use default error message
       }
 
-      throw new Error(`VMS SDK Asset Error: ${errorMessage}`)
+      throw createHttpError(
+        response.status,
+        `VMS SDK Asset Error: ${errorMessage}`,
+        this.fetcher.withAttempts({}, attempts),
+        withRequestId({ url: `${this.fetcher['baseUrl']}${endpoint}` }, response)
+      )
     }
 
     return response
   }
 
+  /**
+   * Read a cached asset, from the binary tier if the cache has one.
+   */
+  private async readCache(key: string, assetId: string): Promise<CachedAsset | null> {
+    const { assets } = this.cache
+    if (assets) {
+      const lookup = await assets.get(key, { allowStale: true })
+      if (!lookup) {
+        return null
+      }
+
+      const { data, contentType, contentLength, fileName, etag, lastModified } = lookup.entry
+      return {
+        asset: { data, contentType, contentLength, fileName, assetId },
+        stale: lookup.stale,
+        validators: { ...(etag ? { etag } : {}), ...(lastModified ? { lastModified } : {}) },
+      }
+    }
+
+    const lookup = await this.cache.getEntry<any>(key, { allowStale: true })
+    if (!lookup?.entry.data) {
+      return null
+    }
+    return { asset: this.fromCached(lookup.entry.data), stale: lookup.stale, validators: lookup.entry }
+  }
+
+  /**
+   * Cache a downloaded asset. The binary tier stores the bytes as is;
+   * string storage needs them base64 encoded since ArrayBuffer cannot be
+   * JSON serialized.
+   */
+  private async writeCache(
+    key: string,
+    asset: AssetData,
+    ttl: number | undefined,
+    validators: CacheValidators
+  ): Promise<void> {
+    if (this.cache.assets) {
+      await this.cache.assets.set(key, asset, ttl, validators)
+      return
+    }
+
+    const cacheableData = {
+      ...asset,
+      data: this.arrayBufferToBase64(asset.data)
+    }
+    await this.cache.set(key, cacheableData, ttl, validators)
+  }
+
   /**
    * Clear asset cache for this project.
    * Removes all cached asset data.
@@ -264,16 +331,28 @@ export class AssetManager {
    */
   private async getAssetCacheKeys(): Promise<string[]> {
     try {
-      // Access storage through cache instance
-      const storage = this.cache['storage'] // Access private property
-      const allKeys = storage.keys()
-      const assetPrefix = `vms:${this.projectId}:${this.locale}:asset:`
+      const allKeys = [...await this.cache.keys(), ...await this.cache.assets?.keys() ?? []]
+      const assetPrefix = `${this.cache.namespace}:${this.projectId}:${this.locale}:asset:`
       return allKeys.filter(key => key.startsWith(assetPrefix))
     } catch {
       return []
     }
   }
 
+  /**
+   * Restore asset data read from the cache.
+   * Binary data is cached as base64 and converted back to an ArrayBuffer.
+   */
+  private fromCached(cachedData: any): AssetData {
+    if (typeof cachedData.data === 'string') {
+      return {
+        ...cachedData,
+        data: this.base64ToArrayBuffer(cachedData.data)
+      }
+    }
+    return cachedData as AssetData
+  }
+
   /**
    * Convert ArrayBuffer to base64 string for caching.
    */
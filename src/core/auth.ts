@@ -0,0 +1,158 @@
+/**
+ * Authentication for VMS SDK requests.
+ * Attaches API keys, bearer tokens and preview tokens, refreshing tokens after a 401.
+ */
+
+import { AuthError, ValidationError } from '../types/config.js'
+import type { AuthConfig } from '../types/config.js'
+import type { Middleware, MiddlewareRequest } from '../types/middleware.js'
+
+/**
+ * Header carrying the API key.
+ */
+const API_KEY_HEADER = 'X-API-Key'
+
+/**
+ * Header carrying the preview token.
+ */
+const PREVIEW_TOKEN_HEADER = 'X-Preview-Token'
+
+/**
+ * Create a middleware attaching credentials to every request.
+ * Provider tokens are fetched once and reused until a 401; concurrent
+ * 401s share a single refresh.
+ */
+export function createAuthMiddleware(auth: AuthConfig, previewToken?: string): Middleware {
+  const staticHeaders: Record<string, string> = {}
+  if (auth.apiKey) {
+    staticHeaders[API_KEY_HEADER] = auth.apiKey
+  }
+  if (previewToken) {
+    staticHeaders[PREVIEW_TOKEN_HEADER] = previewToken
+  }
+
+  const canRefresh = auth.getToken !== undefined || auth.onUnauthorized !== undefined
+  let token: Promise<string | undefined> | null = null
+  let refreshing: Promise<string | undefined> | null = null
+
+  const setToken = (next: Promise<string | undefined>) => {
+    token = next
+    // Don't keep a failed lookup around; the next request tries again
+    next.catch(() => {
+      if (token === next) {
+        token = null
+      }
+    })
+    return next
+  }
+
+  const currentToken = (): Promise<string | undefined> =>
+    token ?? setToken(Promise.resolve(auth.getToken ? auth.getToken() : auth.token))
+
+  const refresh = async (stale: string | undefined): Promise<string | undefined> => {
+    // Another request may already have replaced the rejected token
+    const current = await currentToken().catch(() => undefined)
+    if (current !== stale) {
+      return current
+    }
+
+    if (!refreshing) {
+      refreshing = setToken(refreshToken(auth))
+      refreshing
+        .finally(() => {
+          refreshing = null
+        })
+        .catch(() => {
+          // Callers observe the rejection through their own await
+        })
+    }
+    return refreshing
+  }
+
+  return async (request, next) => {
+    const used = await currentToken().catch(error => {
+      throw new AuthError('VMS SDK: Failed to obtain auth token', undefined, { originalError: error }, {
+        url: request.url,
+      })
+    })
+    const response = await next(withCredentials(request, staticHeaders, used))
+
+    if (response.status !== 401 || !canRefresh) {
+      return response
+    }
+
+    const fresh = await refresh(used).catch(error => {
+      throw new AuthError('VMS SDK: Failed to refresh auth token', 401, { originalError: error }, {
+        url: request.url,
+      })
+    })
+    if (fresh === undefined || fresh === used) {
+      return response
+    }
+    return next(withCredentials(request, staticHeaders, fresh))
+  }
+}
+
+/**
+ * Get the cache partition for content fetched with these credentials.
+ * Returns undefined for anonymous access, which uses the public cache.
+ * Token providers must name the partition with `scope` when content is
+ * cached: their tokens differ per user and change on refresh, so none can
+ * be derived up front.
+ */
+export function getAuthScope(auth: AuthConfig | undefined, caching = true): string | undefined {
+  if (!auth) {
+    return undefined
+  }
+  if (auth.scope) {
+    return auth.scope
+  }
+  if (auth.getToken) {
+    if (!caching) {
+      return undefined
+    }
+    throw new ValidationError('VMS SDK: auth.scope is required with getToken, so each user\'s content is cached apart')
+  }
+
+  const credential = [auth.apiKey, auth.token].filter(Boolean).join('\n')
+  // Never store the credential itself in cache keys
+  return credential ? hashCredential(credential) : undefined
+}
+
+/**
+ * Obtain a new token after a 401.
+ */
+async function refreshToken(auth: AuthConfig): Promise<string | undefined> {
+  const fresh = auth.onUnauthorized ? await auth.onUnauthorized() : undefined
+  if (typeof fresh === 'string') {
+    return fresh
+  }
+  return auth.getToken ? auth.getToken() : auth.token
+}
+
+/**
+ * Return a copy of the request with credential headers set.
+ */
+function withCredentials(
+  request: MiddlewareRequest,
+  staticHeaders: Record<string, string>,
+  token: string | undefined
+): MiddlewareRequest {
+  const headers = { ...request.headers, ...staticHeaders }
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`
+  }
+  return { ...request, headers }
+}
+
+/**
+ * FNV-1a hash of a credential, used as its cache partition name.
+ */
+function hashCredential(credential: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < credential.length; i++) {
+    hash ^= credential.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
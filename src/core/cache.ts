@@ -1,26 +1,96 @@
 /**
  * Browser caching implementation with TTL support for VMS SDK.
- * Supports both localStorage and sessionStorage with graceful fallback.
+ * Supports localStorage, sessionStorage, memory and custom (sync or async)
+ * storage adapters, with graceful fallback when browser storage is unavailable.
  */
 
 import type { 
+  AsyncStorageAdapter,
+  CacheCodec,
   CacheEntry, 
+  CacheGetOptions,
   CacheKeyComponents, 
+  CacheLookup,
   CacheOperations, 
+  CacheReconfigureOptions,
+  CacheSetOptions,
+  CacheCounters,
+  CacheEntryInfo,
+  CacheInspection,
+  CacheTotals,
+  CacheUsage,
+  DehydratedCache,
+  InvalidateOptions,
+  ParsedCacheKey,
   StorageAdapter 
 } from '../types/cache.js'
-import type { CacheConfig } from '../types/config.js'
+import { ValidationError } from '../types/config.js'
+import { AssetCache, createAssetStore } from './asset-cache.js'
+import { isCacheKey, isQuotaError } from './storage.js'
+import { Logger } from './logger.js'
+import type { CacheConfig, CacheStrategy, CollectionCachePolicy, MemoryCacheConfig } from '../types/config.js'
+import { replaceEqualDeep } from '../utils/structural.js'
+import type { SyncEvent } from '../types/events.js'
 
 /**
  * Default cache TTL in milliseconds (5 minutes).
  */
 const DEFAULT_TTL = 300000
 
+/**
+ * Default TTL for empty results and missing items (1 minute), so new content
+ * shows up sooner.
+ */
+const DEFAULT_NEGATIVE_TTL = 60000
+
+/**
+ * Default budget of the in-memory tier.
+ */
+const DEFAULT_MEMORY_MAX_ENTRIES = 100
+const DEFAULT_MEMORY_MAX_BYTES = 5 * 1024 * 1024
+
 /**
  * Cache key prefix to avoid conflicts with other applications.
  */
 const CACHE_KEY_PREFIX = 'vms'
 
+/**
+ * Version of the cache key layout and entry format, part of every key.
+ * Bump it when either changes, including how assets are encoded, so entries
+ * written by older SDK versions are purged instead of being read back.
+ */
+const CACHE_FORMAT_VERSION = 2
+
+/**
+ * Starts and ends the list of codec names in front of an encoded entry.
+ * Plain entries are JSON objects and always start with `{`.
+ */
+const CODEC_MARKER = '\u0001'
+
+/**
+ * BroadcastChannel name for cross-tab cache sync.
+ */
+const SYNC_CHANNEL = 'vms-cache'
+
+/**
+ * Default maximum number of cache entries.
+ */
+const DEFAULT_MAX_ENTRIES = 1000
+
+/**
+ * Options for constructing a BrowserCache.
+ */
+export interface BrowserCacheOptions {
+  /** Partition for keys, e.g. per credential; omitted for public content */
+  scope?: string
+  /** Called when another tab changes the cache */
+  onSync?: (event: SyncEvent) => void
+  /** Logger for failed and refused writes (default: silent) */
+  logger?: Logger
+  /** Project whose entries under a previous `cacheVersion` are purged */
+  projectId?: string
+}
+
 /**
  * Storage adapter for localStorage.
  */
@@ -37,7 +107,10 @@ class LocalStorageAdapter implements StorageAdapter {
     try {
       localStorage.setItem(key, value)
     } catch (error) {
-      // Handle quota exceeded or other storage errors gracefully
+      // Quota errors are left to the cache, which evicts and retries
+      if (isQuotaError(error)) {
+        throw error
+      }
       console.warn('VMS SDK: LocalStorage operation failed, continuing without cache', error)
     }
   }
@@ -53,7 +126,7 @@ class LocalStorageAdapter implements StorageAdapter {
   clear(): void {
     try {
       // Only clear VMS-related keys to avoid affecting other applications
-      const keysToRemove = this.keys().filter(key => key.startsWith(`${CACHE_KEY_PREFIX}:`))
+      const keysToRemove = this.keys().filter(isCacheKey)
       keysToRemove.forEach(key => localStorage.removeItem(key))
     } catch {
       // Ignore clear errors
@@ -92,7 +165,10 @@ class SessionStorageAdapter implements StorageAdapter {
     try {
       sessionStorage.setItem(key, value)
     } catch (error) {
-      // Handle quota exceeded or other storage errors gracefully
+      // Quota errors are left to the cache, which evicts and retries
+      if (isQuotaError(error)) {
+        throw error
+      }
       console.warn('VMS SDK: SessionStorage operation failed, continuing without cache', error)
     }
   }
@@ -108,7 +184,7 @@ class SessionStorageAdapter implements StorageAdapter {
   clear(): void {
     try {
       // Only clear VMS-related keys to avoid affecting other applications
-      const keysToRemove = this.keys().filter(key => key.startsWith(`${CACHE_KEY_PREFIX}:`))
+      const keysToRemove = this.keys().filter(isCacheKey)
       keysToRemove.forEach(key => sessionStorage.removeItem(key))
     } catch {
       // Ignore clear errors
@@ -132,9 +208,10 @@ class SessionStorageAdapter implements StorageAdapter {
 }
 
 /**
- * In-memory storage adapter fallback when browser storage is not available.
+ * In-memory storage adapter, used for `storage: 'memory'` and as the
+ * fallback when browser storage is not available.
  */
-class MemoryStorageAdapter implements StorageAdapter {
+export class MemoryStorageAdapter implements StorageAdapter {
   private storage = new Map<string, string>()
 
   getItem(key: string): string | null {
@@ -142,12 +219,7 @@ class MemoryStorageAdapter implements StorageAdapter {
   }
 
   setItem(key: string, value: string): void {
-    // Implement basic memory limit to prevent unbounded growth
-    if (this.storage.size >= 1000) {
-      // Remove oldest entries (simple LRU-like behavior)
-      const keysToRemove = Array.from(this.storage.keys()).slice(0, 100)
-      keysToRemove.forEach(k => this.storage.delete(k))
-    }
+    // Size limits are enforced by BrowserCache
     this.storage.set(key, value)
   }
 
@@ -157,9 +229,7 @@ class MemoryStorageAdapter implements StorageAdapter {
 
   clear(): void {
     // Only clear VMS-related keys
-    const keysToRemove = Array.from(this.storage.keys()).filter(key => 
-      key.startsWith(`${CACHE_KEY_PREFIX}:`)
-    )
+    const keysToRemove = Array.from(this.storage.keys()).filter(isCacheKey)
     keysToRemove.forEach(key => this.storage.delete(key))
   }
 
@@ -168,43 +238,477 @@ class MemoryStorageAdapter implements StorageAdapter {
   }
 }
 
+/**
+ * Build the tags describing cached content of a project.
+ * Used both to tag entries and to match them for invalidation.
+ */
+export function cacheTags(
+  projectId: string,
+  match: InvalidateOptions & { itemIds?: string[]; tags?: string[] } = {}
+): string[] {
+  const itemIds = [...(match.itemId ? [match.itemId] : []), ...(match.itemIds ?? [])]
+  const tags = [...(match.tag ? [match.tag] : []), ...(match.tags ?? [])]
+
+  return [
+    `project:${projectId}`,
+    ...(match.locale ? [`locale:${match.locale}`] : []),
+    ...(match.collection ? [`collection:${match.collection}`] : []),
+    ...new Set(itemIds.map(id => `item:${id}`)),
+    ...new Set(tags.map(tag => `tag:${tag}`)),
+  ]
+}
+
+/**
+ * Namespace prefixing every cache key: the format version, followed by the
+ * configured `cacheVersion` if any, e.g. `vms@2` or `vms@2.blog-v3`.
+ */
+function cacheNamespace(cacheVersion = ''): string {
+  const namespace = `${CACHE_KEY_PREFIX}@${CACHE_FORMAT_VERSION}`
+  return cacheVersion ? `${namespace}.${encodeURIComponent(cacheVersion)}` : namespace
+}
+
+/**
+ * Format version of a cache key's namespace. Keys from before namespaces
+ * were versioned (`vms:`) count as version 1; returns null for keys that
+ * aren't cache keys.
+ */
+function keyFormatVersion(key: string): number | null {
+  const match = /^vms(?:@(\d+))?[.:]/.exec(key)
+  if (!match) {
+    return null
+  }
+  return match[1] !== undefined ? Number(match[1]) : 1
+}
+
+/**
+ * Query types of content cache keys.
+ */
+type ContentQueryType = 'first' | 'many' | 'all' | 'item'
+const CONTENT_QUERY_TYPES: ContentQueryType[] = ['first', 'many', 'all', 'item']
+
+/**
+ * Split a cache key into its parts. Returns null for keys that weren't
+ * produced by `generateKey`. Keys of any cache namespace are accepted.
+ *
+ * @example
+ * ```typescript
+ * parseCacheKey('vms@2:proj:fr-FR:blog_posts:item:post-1')
+ * // { kind: 'content', projectId: 'proj', locale: 'fr-FR', collection: 'blog_posts', queryType: 'item', itemId: 'post-1' }
+ * ```
+ */
+export function parseCacheKey(key: string): ParsedCacheKey | null {
+  const [, projectId, locale, ...rest] = key.split(':')
+  if (!isCacheKey(key) || !projectId || !locale || rest.length < 2) {
+    return null
+  }
+
+  const scopePart = rest[rest.length - 1]?.startsWith('@') ? rest.pop() : undefined
+  let scope: string | undefined
+  try {
+    scope = scopePart !== undefined ? decodeURIComponent(scopePart.slice(1)) : undefined
+  } catch {
+    return null
+  }
+
+  let parsed: ParsedCacheKey
+  let extra: string[]
+  if (rest[0] === 'asset') {
+    const [, queryType, assetId, ...params] = rest
+    if ((queryType !== 'asset-url' && queryType !== 'asset-download') || !assetId) {
+      return null
+    }
+    parsed = { kind: 'asset', projectId, locale, assetId, queryType }
+    extra = params
+  } else {
+    const [collection, queryType, ...params] = rest
+    if (!collection || !CONTENT_QUERY_TYPES.includes(queryType as ContentQueryType)) {
+      return null
+    }
+    parsed = { kind: 'content', projectId, locale, collection, queryType: queryType as ContentQueryType }
+    extra = params
+    if (queryType === 'item') {
+      const itemId = extra.shift()
+      if (!itemId) {
+        return null
+      }
+      parsed.itemId = itemId
+    }
+  }
+
+  if (extra.length > 1) {
+    return null
+  }
+  if (extra[0]) {
+    parsed.paramHash = extra[0]
+  }
+  if (scope !== undefined) {
+    parsed.scope = scope
+  }
+  return parsed
+}
+
+/**
+ * Empty lookup and eviction counters.
+ */
+function emptyCounters(): CacheCounters {
+  return { hits: 0, misses: 0, evictions: 0 }
+}
+
+/**
+ * Add an entry to a group's totals.
+ */
+function addTotals(totals: Record<string, CacheTotals>, group: string, bytes: number): void {
+  const current = totals[group] ?? { entries: 0, bytes: 0 }
+  totals[group] = { entries: current.entries + 1, bytes: current.bytes + bytes }
+}
+
+/**
+ * Recency order and sizes of stored entries, least recently used first.
+ */
+class LruIndex {
+  private readonly sizes = new Map<string, number>()
+  private total = 0
+
+  /** Number of tracked entries */
+  get count(): number {
+    return this.sizes.size
+  }
+
+  /** Total size of tracked entries in bytes */
+  get bytes(): number {
+    return this.total
+  }
+
+  /** Record a write, making the key most recently used */
+  set(key: string, size: number): void {
+    this.delete(key)
+    this.sizes.set(key, size)
+    this.total += size
+  }
+
+  /** Record a read, making the key most recently used */
+  use(key: string): void {
+    const size = this.sizes.get(key)
+    if (size !== undefined) {
+      this.sizes.delete(key)
+      this.sizes.set(key, size)
+    }
+  }
+
+  delete(key: string): void {
+    const size = this.sizes.get(key)
+    if (size !== undefined) {
+      this.sizes.delete(key)
+      this.total -= size
+    }
+  }
+
+  /** The least recently used key */
+  oldest(): string | undefined {
+    return this.sizes.keys().next().value
+  }
+
+  clear(): void {
+    this.sizes.clear()
+    this.total = 0
+  }
+}
+
+/**
+ * Decoded entries kept in memory in front of the storage, least recently
+ * used first. Writes share structure with the entry they replace, so
+ * unchanged parts of refreshed content keep their identity.
+ */
+class MemoryTier {
+  private readonly entries = new Map<string, { entry: CacheEntry; size: number }>()
+  private readonly maxEntries: number
+  private readonly maxBytes: number
+  private total = 0
+
+  constructor(config: MemoryCacheConfig) {
+    this.maxEntries = config.maxEntries ?? DEFAULT_MEMORY_MAX_ENTRIES
+    this.maxBytes = config.maxBytes ?? DEFAULT_MEMORY_MAX_BYTES
+  }
+
+  /** Number of entries held */
+  get count(): number {
+    return this.entries.size
+  }
+
+  /** Total size of held entries in bytes */
+  get bytes(): number {
+    return this.total
+  }
+
+  /** Whether this many entries of this total size can be held at once */
+  holds(count: number, bytes: number): boolean {
+    return count <= this.maxEntries && bytes <= this.maxBytes
+  }
+
+  /** Get an entry, making it most recently used */
+  get<T>(key: string): CacheEntry<T> | undefined {
+    const held = this.entries.get(key)
+    if (held) {
+      this.entries.delete(key)
+      this.entries.set(key, held)
+    }
+    return held?.entry
+  }
+
+  /** Hold an entry, evicting least recently used ones beyond the budget */
+  set(key: string, entry: CacheEntry, size: number): void {
+    const previous = this.entries.get(key)
+    this.delete(key)
+    if (size > this.maxBytes || this.maxEntries <= 0) {
+      return
+    }
+
+    while (this.entries.size >= this.maxEntries || this.total + size > this.maxBytes) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) {
+        break
+      }
+      this.delete(oldest)
+    }
+
+    const data = previous ? replaceEqualDeep(previous.entry.data, entry.data) : entry.data
+    this.entries.set(key, { entry: { ...entry, data }, size })
+    this.total += size
+  }
+
+  delete(key: string): void {
+    const held = this.entries.get(key)
+    if (held) {
+      this.entries.delete(key)
+      this.total -= held.size
+    }
+  }
+
+  clear(): void {
+    this.entries.clear()
+    this.total = 0
+  }
+}
+
+/**
+ * Approximate storage size of an entry: UTF-16, as browsers count quota.
+ */
+function entrySize(key: string, value: string): number {
+  return (key.length + value.length) * 2
+}
+
 /**
  * Browser cache implementation with TTL support.
+ * Entries beyond `maxEntries` or `maxBytes`, and entries in the way of a
+ * write that hits the storage quota, are evicted least recently used first.
+ * Recently used entries are also kept decoded in memory (L1) in front of the
+ * storage (L2); writes go to both, and L2 hits are promoted into L1.
  */
 export class BrowserCache implements CacheOperations {
-  private readonly storage: StorageAdapter
-  private readonly ttl: number
-  private readonly enabled: boolean
+  private storage: StorageAdapter | AsyncStorageAdapter
+  private memory: MemoryTier | null
+  private assetCache: AssetCache | null
+  private cacheStrategy: CacheStrategy
+  private ttl: number
+  private negativeTtl: number
+  private collectionPolicies: Record<string, CollectionCachePolicy>
+  private enabled: boolean
+  private maxEntries: number
+  private maxBytes: number
+  private shared: boolean
+  private storageOption: CacheConfig['storage']
+  private keyNamespace: string
+  private codecs: CacheCodec[]
+  private assetStorageOption: CacheConfig['assetStorage']
+  private readonly scope: string | undefined
+  private readonly onSync: ((event: SyncEvent) => void) | undefined
+  private readonly logger: Logger
+  private readonly projectId: string | undefined
+  private index: Promise<LruIndex> | null = null
+  private evictions = 0
+  private collectionCounters: Record<string, CacheCounters> = {}
+  private assetCounters = emptyCounters()
+  private channel: BroadcastChannel | null = null
+  private storageListener: ((event: StorageEvent) => void) | null = null
+  private touched = new Set<string>()
+  private hydrating: Promise<unknown> | null = null
+  private purging: Promise<number> | null = null
 
-  constructor(config: Required<CacheConfig>) {
+  constructor(config: CacheConfig = {}, options: BrowserCacheOptions = {}) {
     this.ttl = config.ttl || DEFAULT_TTL
-    this.enabled = config.enabled
+    this.negativeTtl = config.negativeTtl ?? DEFAULT_NEGATIVE_TTL
+    this.collectionPolicies = config.collections ?? {}
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES
+    this.maxBytes = config.maxBytes ?? Infinity
+    this.enabled = config.enabled ?? true
+    this.cacheStrategy = config.strategy ?? 'cache-first'
+    this.scope = options.scope
+    this.onSync = options.onSync
+    this.logger = options.logger ?? new Logger()
+    this.projectId = options.projectId
+    this.storageOption = config.storage
+    this.assetStorageOption = config.assetStorage
+    this.assetCache = this.createAssetCache(config)
+    this.storage = this.createStorage(config)
+    this.memory = this.createMemoryTier(config)
+    this.shared = this.isShared(this.storage)
+    this.keyNamespace = cacheNamespace(config.cacheVersion)
+    this.codecs = config.codecs ?? []
 
-    if (!this.enabled) {
-      // Use memory storage when caching is disabled
-      this.storage = new MemoryStorageAdapter()
-      return
+    if (this.enabled) {
+      this.purging = this.purge()
     }
+    if (this.enabled && (config.sync ?? true)) {
+      this.startSync()
+    }
+  }
 
-    // Try to use the requested storage type with fallback
-    try {
-      if (config.storage === 'sessionStorage' && typeof sessionStorage !== 'undefined') {
-        // Test if sessionStorage is accessible (some browsers disable it in private mode)
-        sessionStorage.setItem('__vms_test__', 'test')
-        sessionStorage.removeItem('__vms_test__')
-        this.storage = new SessionStorageAdapter()
-      } else if (typeof localStorage !== 'undefined') {
-        // Test if localStorage is accessible
-        localStorage.setItem('__vms_test__', 'test')
-        localStorage.removeItem('__vms_test__')
-        this.storage = new LocalStorageAdapter()
-      } else {
-        throw new Error('No browser storage available')
+  /** Prefix of this cache's keys; entries under other namespaces are purged */
+  get namespace(): string {
+    return this.keyNamespace
+  }
+
+  /** How content queries use this cache */
+  get strategy(): CacheStrategy {
+    return this.cacheStrategy
+  }
+
+  /** Binary tier for downloaded assets; null when assets are kept in `storage` */
+  get assets(): AssetCache | null {
+    return this.assetCache
+  }
+
+  /**
+   * Cache settings for a collection: its entry in `collections` over the
+   * client-wide settings.
+   */
+  policy(collectionSlug: string): Required<CollectionCachePolicy> {
+    const policy = this.collectionPolicies[collectionSlug] ?? {}
+    return {
+      ttl: policy.ttl ?? this.ttl,
+      negativeTtl: policy.negativeTtl ?? this.negativeTtl,
+      strategy: policy.strategy ?? this.cacheStrategy,
+      enabled: this.enabled && (policy.enabled ?? true),
+    }
+  }
+
+  /**
+   * Whether these entries can be stored together without evicting each
+   * other, in the storage and in the in-memory tier. Sizes are measured on
+   * the entries as stored, after codecs.
+   */
+  async fits(entries: Array<{ key: string; data: unknown; tags?: string[] }>, ttl = this.ttl): Promise<boolean> {
+    if (entries.length > this.maxEntries || !(this.memory?.holds(entries.length, 0) ?? true)) {
+      return false
+    }
+
+    let bytes = 0
+    for (const { key, data, tags } of entries) {
+      const value = await this.encode({ data, timestamp: Date.now(), ttl, ...(tags?.length ? { tags } : {}) })
+      bytes += entrySize(key, value)
+    }
+    return bytes <= this.maxBytes && (this.memory?.holds(entries.length, bytes) ?? true)
+  }
+
+  /**
+   * Apply new settings in place, so queries and asset managers already
+   * holding this cache use them from their next call. A new storage is only
+   * created when `storage` or `enabled` change. Entries in the old storage
+   * are left there, unless `migrate` is set: then they are moved to the new
+   * storage, keeping their timestamps.
+   */
+  async reconfigure(config: CacheConfig, options: CacheReconfigureOptions = {}): Promise<void> {
+    if (this.hydrating) {
+      await this.hydrating
+    }
+
+    const enabled = config.enabled ?? true
+    const storageChanged = enabled !== this.enabled || config.storage !== this.storageOption
+    const namespace = cacheNamespace(config.cacheVersion)
+    const namespaceChanged = namespace !== this.keyNamespace
+    const migrate = storageChanged && (options.migrate ?? false) && this.enabled && enabled
+    const previousStorage = this.storage
+    const previousAssets = this.assetCache
+
+    const entries: Array<[string, CacheEntry]> = []
+    if (migrate) {
+      for (const key of await this.keys()) {
+        const value = await previousStorage.getItem(key)
+        if (value === null) {
+          continue
+        }
+        try {
+          entries.push([key, await this.decode(value)])
+        } catch {
+          // Undecodable entries would be misses in the new storage too
+        }
+      }
+      // Clear before writing, in case both settings resolve to the same storage
+      await previousStorage.clear()
+    }
+
+    this.ttl = config.ttl || DEFAULT_TTL
+    this.negativeTtl = config.negativeTtl ?? DEFAULT_NEGATIVE_TTL
+    this.collectionPolicies = config.collections ?? {}
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES
+    this.maxBytes = config.maxBytes ?? Infinity
+    this.enabled = enabled
+    this.cacheStrategy = config.strategy ?? 'cache-first'
+    this.storageOption = config.storage
+    this.assetStorageOption = config.assetStorage
+    this.assetCache = this.createAssetCache(config)
+    this.memory = this.createMemoryTier(config)
+    this.keyNamespace = namespace
+    this.codecs = config.codecs ?? []
+
+    if (storageChanged) {
+      this.storage = this.createStorage(config)
+      this.shared = this.isShared(this.storage)
+      this.index = null
+      this.touched.clear()
+
+      for (const [key, entry] of entries) {
+        try {
+          await this.write(key, await this.encode(entry))
+          this.touched.add(key)
+        } catch (error) {
+          this.logWriteFailure(key, error)
+        }
+      }
+    }
+
+    // Binary assets can't follow into content storage; don't leave them behind
+    if (migrate && previousAssets && !this.assetCache) {
+      for (const key of await previousAssets.keys()) {
+        await previousAssets.remove(key)
+      }
+    }
+
+    if (namespaceChanged) {
+      this.index = null
+      this.touched.clear()
+      if (this.enabled) {
+        this.purging = this.purge()
+        await this.purging
       }
-    } catch {
-      // Fallback to memory storage if browser storage is not available
-      console.warn('VMS SDK: Browser storage not available, using in-memory cache')
-      this.storage = new MemoryStorageAdapter()
+    }
+
+    this.destroy()
+    if (this.enabled && (config.sync ?? true)) {
+      this.startSync()
+    }
+  }
+
+  /**
+   * Stop syncing with other tabs. The cache stays usable.
+   */
+  destroy(): void {
+    this.channel?.close()
+    this.channel = null
+
+    if (this.storageListener) {
+      window.removeEventListener('storage', this.storageListener)
+      this.storageListener = null
     }
   }
 
@@ -212,30 +716,66 @@ export class BrowserCache implements CacheOperations {
    * Get cached data for a key.
    */
   async get<T>(key: string): Promise<T | null> {
+    const lookup = await this.getEntry<T>(key)
+    return lookup ? lookup.entry.data : null
+  }
+
+  /**
+   * Get the cache entry for a key, including its validators.
+   * Expired entries are removed unless `allowStale` is set, in which case
+   * they are returned marked as stale so they can be revalidated.
+   */
+  async getEntry<T>(key: string, options: CacheGetOptions = {}): Promise<CacheLookup<T> | null> {
     if (!this.enabled) {
       return null
     }
 
+    const lookup = await this.readEntry<T>(key, options)
+    if (options.countLookup ?? true) {
+      this.count(key, lookup && !lookup.stale ? 'hits' : 'misses')
+    }
+    if (lookup) {
+      this.touched.add(key)
+    }
+    return lookup
+  }
+
+  /**
+   * Read an entry without counting the lookup.
+   */
+  private async readEntry<T>(key: string, options: CacheGetOptions = {}): Promise<CacheLookup<T> | null> {
+    if (this.hydrating) {
+      await this.hydrating
+    }
+
     try {
-      const item = this.storage.getItem(key)
-      if (!item) {
-        return null
+      let entry = this.memory?.get<T>(key)
+      if (!entry) {
+        const item = await this.storage.getItem(key)
+        if (!item) {
+          return null
+        }
+
+        entry = await this.decode<T>(item)
+        this.memory?.set(key, entry, entrySize(key, item))
       }
 
-      const entry: CacheEntry<T> = JSON.parse(item)
       const now = Date.now()
       const entryTtl = entry.ttl ?? this.ttl
+      const stale = now - entry.timestamp > entryTtl
 
       // Check if entry has expired
-      if (now - entry.timestamp > entryTtl) {
-        this.storage.removeItem(key)
+      if (stale && !options.allowStale) {
+        await this.delete(key)
         return null
       }
 
-      return entry.data
+      const index = await this.lru()
+      index.use(key)
+      return { entry, stale }
     } catch (error) {
-      // If parsing fails or other error, remove the corrupted entry
-      this.storage.removeItem(key)
+      // If decoding fails or other error, remove the corrupted entry
+      await this.delete(key)
       return null
     }
   }
@@ -243,7 +783,7 @@ export class BrowserCache implements CacheOperations {
   /**
    * Set cached data for a key.
    */
-  async set<T>(key: string, data: T, ttl?: number): Promise<void> {
+  async set<T>(key: string, data: T, ttl?: number, options: CacheSetOptions = {}): Promise<void> {
     if (!this.enabled) {
       return
     }
@@ -253,27 +793,81 @@ export class BrowserCache implements CacheOperations {
         data,
         timestamp: Date.now(),
         ttl: ttl ?? this.ttl,
+        ...(options.etag ? { etag: options.etag } : {}),
+        ...(options.lastModified ? { lastModified: options.lastModified } : {}),
+        ...(options.tags?.length ? { tags: options.tags } : {}),
       }
 
-      this.storage.setItem(key, JSON.stringify(entry))
+      const value = await this.encode(entry)
+      if (!await this.write(key, value)) {
+        await this.discard(key)
+        return
+      }
+      this.memory?.set(key, entry, entrySize(key, value))
+      this.touched.add(key)
+      this.broadcast({ type: 'set', keys: [key] })
     } catch (error) {
       // Storage operation failed, continue without caching
-      console.warn('VMS SDK: Cache storage failed, continuing without cache', error)
+      this.logWriteFailure(key, error)
+      await this.discard(key)
     }
   }
 
+  /**
+   * Drop the previous value of a key whose new value couldn't be stored, so
+   * it isn't served in place of the newer data.
+   */
+  private async discard(key: string): Promise<void> {
+    try {
+      await this.delete(key)
+      this.broadcast({ type: 'remove', keys: [key] })
+    } catch {
+      // Storage unavailable; nothing more to do
+    }
+  }
+
+  /**
+   * Restart the TTL of an existing entry, e.g. after a 304 Not Modified.
+   * Returns false if there is no entry to refresh.
+   */
+  async touch(key: string, ttl?: number): Promise<boolean> {
+    const lookup = await this.readEntry(key, { allowStale: true })
+    if (!lookup) {
+      return false
+    }
+
+    const { entry } = lookup
+    await this.set(key, entry.data, ttl ?? entry.ttl, {
+      ...(entry.etag ? { etag: entry.etag } : {}),
+      ...(entry.lastModified ? { lastModified: entry.lastModified } : {}),
+      ...(entry.tags ? { tags: entry.tags } : {}),
+    })
+    return true
+  }
+
   /**
    * Remove cached data for a key.
    */
   async remove(key: string): Promise<void> {
-    this.storage.removeItem(key)
+    await this.delete(key)
+    await this.assets?.remove(key)
+    this.broadcast({ type: 'remove', keys: [key] })
   }
 
   /**
    * Clear all cached data.
    */
   async clear(): Promise<void> {
-    this.storage.clear()
+    await this.storage.clear()
+    this.memory?.clear()
+    this.index = null
+    this.broadcast({ type: 'clear' })
+
+    if (this.assets) {
+      for (const key of await this.assets.keys()) {
+        await this.assets.remove(key)
+      }
+    }
   }
 
   /**
@@ -284,10 +878,28 @@ export class BrowserCache implements CacheOperations {
     return data !== null
   }
 
+  /**
+   * Get all VMS cache keys of this namespace currently in storage,
+   * including expired entries.
+   */
+  async keys(): Promise<string[]> {
+    if (this.purging) {
+      await this.purging
+    }
+
+    try {
+      const keys = await this.storage.keys()
+      return keys.filter(key => key.startsWith(`${this.keyNamespace}:`))
+    } catch {
+      return []
+    }
+  }
+
   /**
    * Generate a cache key from components.
-   * Collection cache key format: vms:{projectId}:{locale}:{collectionSlug}:{queryType}[:{itemId}][:{paramHash}]
-   * Asset cache key format: vms:{projectId}:{locale}:asset:{queryType}:{assetId}[:{paramHash}]
+   * Collection cache key format: {namespace}:{projectId}:{locale}:{collectionSlug}:{queryType}[:{itemId}][:{paramHash}]
+   * Asset cache key format: {namespace}:{projectId}:{locale}:asset:{queryType}:{assetId}[:{paramHash}]
+   * A scoped cache appends `:@{scope}` so scoped and public content never share keys.
    */
   generateKey(components: CacheKeyComponents): string {
     const { projectId, collectionSlug, assetId, queryType, itemId, params, locale = 'en-US' } = components
@@ -297,15 +909,15 @@ export class BrowserCache implements CacheOperations {
     // Handle asset operations differently from collection operations
     if (queryType === 'asset-url' || queryType === 'asset-download') {
       if (!assetId) {
-        throw new Error('Asset ID is required for asset operations')
+        throw new ValidationError('Asset ID is required for asset operations')
       }
-      keyParts = [CACHE_KEY_PREFIX, projectId, locale, 'asset', queryType, assetId]
+      keyParts = [this.keyNamespace, projectId, locale, 'asset', queryType, assetId]
     } else {
       // Collection operations
       if (!collectionSlug) {
-        throw new Error('Collection slug is required for collection operations')
+        throw new ValidationError('Collection slug is required for collection operations')
       }
-      keyParts = [CACHE_KEY_PREFIX, projectId, locale, collectionSlug, queryType]
+      keyParts = [this.keyNamespace, projectId, locale, collectionSlug, queryType]
 
       if (itemId) {
         keyParts.push(itemId)
@@ -319,9 +931,51 @@ export class BrowserCache implements CacheOperations {
       keyParts.push(paramHash)
     }
 
+    if (this.scope) {
+      keyParts.push(`@${encodeURIComponent(this.scope)}`)
+    }
+
     return keyParts.join(':')
   }
 
+  /**
+   * Remove entries this SDK can no longer read: those written by an older
+   * SDK version, and this project's entries for a previous `cacheVersion`.
+   * Other projects sharing the storage, and newer SDK versions running in
+   * other tabs, keep theirs. Runs when the cache is created and when
+   * `cacheVersion` is reconfigured. Returns the number of entries removed.
+   */
+  async purge(): Promise<number> {
+    const incompatible = (key: string) => {
+      const version = keyFormatVersion(key)
+      if (version === null || key.startsWith(`${this.keyNamespace}:`)) {
+        return false
+      }
+      if (version < CACHE_FORMAT_VERSION) {
+        return true
+      }
+      return version === CACHE_FORMAT_VERSION && this.projectId !== undefined && key.split(':')[1] === this.projectId
+    }
+    let removed = 0
+
+    try {
+      for (const key of (await this.storage.keys()).filter(incompatible)) {
+        await this.storage.removeItem(key)
+        removed++
+      }
+
+      if (this.assets) {
+        for (const key of (await this.assets.keys()).filter(incompatible)) {
+          await this.assets.remove(key)
+          removed++
+        }
+      }
+    } catch {
+      // Ignore purge errors; the entries are never read
+    }
+    return removed
+  }
+
   /**
    * Clean up expired cache entries.
    * This method can be called periodically to remove stale data.
@@ -332,13 +986,12 @@ export class BrowserCache implements CacheOperations {
     }
 
     try {
-      const keys = this.storage.keys()
-      const vmsKeys = keys.filter(key => key.startsWith(`${CACHE_KEY_PREFIX}:`))
-
-      for (const key of vmsKeys) {
-        // Trigger get() which will automatically remove expired entries
-        await this.get(key)
+      for (const key of await this.keys()) {
+        // Reading removes expired entries
+        await this.readEntry(key)
       }
+
+      await this.assets?.removeExpired()
     } catch {
       // Ignore cleanup errors
     }
@@ -354,18 +1007,617 @@ export class BrowserCache implements CacheOperations {
     }
 
     try {
-      const keys = this.storage.keys()
-      const localePrefix = `${CACHE_KEY_PREFIX}:${projectId}:${locale}:`
+      const keys = await this.keys()
+      const localePrefix = `${this.keyNamespace}:${projectId}:${locale}:`
       const localeKeys = keys.filter(key => key.startsWith(localePrefix))
 
       for (const key of localeKeys) {
-        this.storage.removeItem(key)
+        await this.delete(key)
+      }
+      this.broadcast({ type: 'remove', keys: localeKeys })
+
+      if (this.assets) {
+        const assetKeys = await this.assets.keys()
+        for (const key of assetKeys.filter(key => key.startsWith(localePrefix))) {
+          await this.assets.remove(key)
+        }
       }
     } catch {
       // Ignore clear errors
     }
   }
 
+  /**
+   * Remove every entry carrying all of the given tags.
+   * Returns the number of entries removed.
+   */
+  async invalidate(tags: string[]): Promise<number> {
+    if (!this.enabled) {
+      return 0
+    }
+
+    const keys = await this.removeTagged(tags)
+    this.broadcast({ type: 'invalidate', keys, tags })
+    return keys.length
+  }
+
+  /**
+   * Remove every entry carrying all of the given tags, returning their keys.
+   */
+  private async removeTagged(tags: string[]): Promise<string[]> {
+    const removed: string[] = []
+    for (const key of await this.keys()) {
+      const item = await this.storage.getItem(key)
+      if (!item) {
+        continue
+      }
+
+      let entryTags: unknown
+      try {
+        entryTags = (await this.decode(item)).tags
+      } catch {
+        continue
+      }
+
+      if (Array.isArray(entryTags) && tags.every(tag => entryTags.includes(tag))) {
+        await this.delete(key)
+        removed.push(key)
+      }
+    }
+    return removed
+  }
+
+  /**
+   * List cached entries with their age and remaining TTL, with totals by
+   * locale and kind and the lookup counters. Only entries of `projectId`
+   * are listed when given.
+   */
+  async inspect(projectId?: string): Promise<CacheInspection> {
+    const now = Date.now()
+    const entries: CacheEntryInfo[] = []
+
+    const addEntry = (
+      key: string,
+      tier: CacheEntryInfo['tier'],
+      bytes: number,
+      entry: { timestamp: number; ttl?: number; tags?: string[] }
+    ) => {
+      const parsed = parseCacheKey(key)
+      if (!parsed || (projectId !== undefined && parsed.projectId !== projectId)) {
+        return
+      }
+
+      const ttl = entry.ttl ?? this.ttl
+      const age = now - entry.timestamp
+      entries.push({
+        key,
+        ...parsed,
+        tier,
+        bytes,
+        age,
+        ttl,
+        remainingTtl: Math.max(0, ttl - age),
+        expired: age > ttl,
+        ...(entry.tags ? { tags: entry.tags } : {}),
+      })
+    }
+
+    if (this.enabled) {
+      for (const key of await this.keys()) {
+        const item = await this.storage.getItem(key)
+        if (!item) {
+          continue
+        }
+        try {
+          addEntry(key, 'storage', entrySize(key, item), await this.decode(item))
+        } catch {
+          // Corrupted entries are removed on the next read
+        }
+      }
+
+      if (this.assets) {
+        for (const key of await this.assets.keys()) {
+          const entry = await this.assets.peek(key)
+          if (entry) {
+            addEntry(key, 'binary', entry.data.byteLength, entry)
+          }
+        }
+      }
+    }
+
+    const byLocale: Record<string, CacheTotals> = {}
+    const byKind: Record<string, CacheTotals> = {}
+    for (const entry of entries) {
+      addTotals(byLocale, entry.locale, entry.bytes)
+      addTotals(byKind, entry.kind, entry.bytes)
+    }
+
+    const collections = Object.fromEntries(
+      Object.entries(this.collectionCounters).map(([slug, counters]) => [slug, { ...counters }])
+    )
+    const counters = [this.assetCounters, ...Object.values(this.collectionCounters)].reduce(
+      (total, group) => ({
+        hits: total.hits + group.hits,
+        misses: total.misses + group.misses,
+        evictions: total.evictions + group.evictions,
+      }),
+      emptyCounters()
+    )
+
+    return {
+      entries,
+      totals: {
+        entries: entries.length,
+        bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+      },
+      byLocale,
+      byKind: {
+        content: byKind['content'] ?? { entries: 0, bytes: 0 },
+        asset: byKind['asset'] ?? { entries: 0, bytes: 0 },
+      },
+      memory: { entries: this.memory?.count ?? 0, bytes: this.memory?.bytes ?? 0 },
+      counters,
+      collections,
+      assets: { ...this.assetCounters },
+    }
+  }
+
+  /**
+   * Count a lookup or eviction for the key's collection, or for assets.
+   */
+  private count(key: string, counter: keyof CacheCounters): void {
+    const parsed = parseCacheKey(key)
+    if (!parsed) {
+      return
+    }
+
+    if (parsed.kind === 'asset') {
+      this.assetCounters[counter]++
+      return
+    }
+
+    const slug = parsed.collection ?? ''
+    const counters = this.collectionCounters[slug] ?? emptyCounters()
+    counters[counter]++
+    this.collectionCounters[slug] = counters
+  }
+
+  /**
+   * Serialize the entries read or written since the cache was created or
+   * last dehydrated, e.g. during a server render. Downloaded assets are left
+   * out; the browser fetches those itself.
+   */
+  async dehydrate(): Promise<DehydratedCache> {
+    const keys = Array.from(this.touched)
+    this.touched.clear()
+
+    const entries: Record<string, CacheEntry> = {}
+    if (!this.enabled) {
+      return { version: 1, entries }
+    }
+
+    for (const key of keys) {
+      if (key.includes(':asset:asset-download:')) {
+        continue
+      }
+
+      const item = await this.storage.getItem(key)
+      if (!item) {
+        continue
+      }
+
+      try {
+        entries[key] = await this.decode(item)
+      } catch {
+        // Corrupted entries are not worth shipping
+      }
+    }
+    return { version: 1, entries }
+  }
+
+  /**
+   * Seed the cache with dehydrated entries, keeping their keys and
+   * timestamps. Entries already cached more recently are kept. Reads wait
+   * until hydration finishes. Returns the number of entries written.
+   */
+  async hydrate(state: DehydratedCache | string): Promise<number> {
+    const parsed = typeof state === 'string' ? this.parseDehydrated(state) : state
+    if (!parsed || parsed.version !== 1 || typeof parsed.entries !== 'object' || parsed.entries === null) {
+      throw new ValidationError('VMS SDK: Invalid dehydrated cache state')
+    }
+
+    if (!this.enabled) {
+      return 0
+    }
+
+    const hydrating = this.writeDehydrated(parsed.entries)
+    this.hydrating = hydrating
+    try {
+      return await hydrating
+    } finally {
+      if (this.hydrating === hydrating) {
+        this.hydrating = null
+      }
+    }
+  }
+
+  private parseDehydrated(state: string): DehydratedCache | null {
+    try {
+      return JSON.parse(state)
+    } catch {
+      return null
+    }
+  }
+
+  private async writeDehydrated(entries: Record<string, CacheEntry>): Promise<number> {
+    let written = 0
+    for (const [key, entry] of Object.entries(entries)) {
+      if (!key.startsWith(`${this.keyNamespace}:`) || !entry || typeof entry.timestamp !== 'number') {
+        continue
+      }
+
+      try {
+        const existing = await this.storage.getItem(key)
+        if (existing && (await this.decode(existing)).timestamp >= entry.timestamp) {
+          continue
+        }
+      } catch {
+        // Overwrite corrupted entries
+      }
+
+      try {
+        this.memory?.delete(key)
+        await this.write(key, await this.encode(entry))
+        written++
+      } catch (error) {
+        this.logWriteFailure(key, error)
+      }
+    }
+    return written
+  }
+
+  /**
+   * Get the number and size of stored entries and the evictions so far.
+   */
+  async usage(): Promise<CacheUsage> {
+    if (!this.enabled) {
+      return { entries: 0, bytes: 0, evictions: this.evictions }
+    }
+
+    const index = await this.lru()
+    return { entries: index.count, bytes: index.bytes, evictions: this.evictions }
+  }
+
+  /**
+   * Write a serialized entry, first evicting least recently used entries to
+   * stay within the configured limits, then again if the storage is full.
+   * Returns false if the entry is too large.
+   */
+  private async write(key: string, value: string): Promise<boolean> {
+    const index = await this.lru()
+    const size = entrySize(key, value)
+    if (size > this.maxBytes) {
+      this.logger.warn('cache.too_large', 'Cache entry exceeds maxBytes, not cached', {
+        key,
+        bytes: size,
+        maxBytes: this.maxBytes,
+      })
+      return false
+    }
+
+    // The previous value is replaced, so it doesn't count against the limits
+    index.delete(key)
+    while (index.count >= this.maxEntries || index.bytes + size > this.maxBytes) {
+      if (!await this.evictOldest(index)) {
+        break
+      }
+    }
+
+    for (;;) {
+      try {
+        await this.storage.setItem(key, value)
+        break
+      } catch (error) {
+        if (!isQuotaError(error) || !await this.evictOldest(index)) {
+          throw error
+        }
+      }
+    }
+    index.set(key, size)
+    return true
+  }
+
+  /**
+   * Log a write that failed, e.g. because storage is full or unavailable.
+   */
+  private logWriteFailure(key: string, error: unknown): void {
+    this.logger.warn('cache.write_failed', 'Cache storage failed, continuing without cache', {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  /**
+   * Evict the least recently used entry. Returns false if there is none.
+   */
+  private async evictOldest(index: LruIndex): Promise<boolean> {
+    const oldest = index.oldest()
+    if (oldest === undefined) {
+      return false
+    }
+
+    index.delete(oldest)
+    this.touched.delete(oldest)
+    this.memory?.delete(oldest)
+    await this.storage.removeItem(oldest)
+    this.evictions++
+    this.count(oldest, 'evictions')
+    return true
+  }
+
+  /**
+   * Remove an entry from both tiers and the LRU index.
+   */
+  private async delete(key: string): Promise<void> {
+    this.touched.delete(key)
+    this.memory?.delete(key)
+    await this.storage.removeItem(key)
+    const index = await this.lru()
+    index.delete(key)
+  }
+
+  /**
+   * Serialize an entry for storage, applying the configured codecs in order.
+   * Without codecs, entries are stored as plain JSON.
+   */
+  private async encode(entry: CacheEntry): Promise<string> {
+    let value = JSON.stringify(entry)
+    if (!this.codecs.length) {
+      return value
+    }
+
+    for (const codec of this.codecs) {
+      value = await codec.encode(value)
+    }
+    return `${CODEC_MARKER}${this.codecs.map(codec => codec.name).join(',')}${CODEC_MARKER}${value}`
+  }
+
+  /**
+   * Read a stored entry, reversing the codecs it was written with.
+   * Throws when the entry is corrupt or one of its codecs is missing or fails.
+   */
+  private async decode<T>(value: string): Promise<CacheEntry<T>> {
+    if (!value.startsWith(CODEC_MARKER)) {
+      return JSON.parse(value) as CacheEntry<T>
+    }
+
+    const end = value.indexOf(CODEC_MARKER, CODEC_MARKER.length)
+    if (end === -1) {
+      throw new Error('VMS SDK: Invalid encoded cache entry')
+    }
+
+    const names = value.slice(CODEC_MARKER.length, end).split(',')
+    let decoded = value.slice(end + CODEC_MARKER.length)
+    for (const name of names.reverse()) {
+      const codec = this.codecs.find(codec => codec.name === name)
+      if (!codec) {
+        throw new Error(`VMS SDK: Cache entry needs the '${name}' codec, which is not configured`)
+      }
+      decoded = await codec.decode(decoded)
+    }
+    return JSON.parse(decoded) as CacheEntry<T>
+  }
+
+  /**
+   * Get the LRU index, building it from storage on first use. Entries
+   * already in storage are ordered by when they were written.
+   */
+  private lru(): Promise<LruIndex> {
+    if (!this.index) {
+      this.index = this.loadIndex()
+    }
+    return this.index
+  }
+
+  private async loadIndex(): Promise<LruIndex> {
+    const found: Array<{ key: string; size: number; timestamp: number }> = []
+    for (const key of await this.keys()) {
+      const value = await this.storage.getItem(key)
+      if (value === null) {
+        continue
+      }
+
+      let timestamp = 0
+      try {
+        timestamp = (await this.decode(value)).timestamp ?? 0
+      } catch {
+        // Corrupted entries are evicted first
+      }
+      found.push({ key, size: entrySize(key, value), timestamp })
+    }
+
+    const index = new LruIndex()
+    found
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(({ key, size }) => index.set(key, size))
+    return index
+  }
+
+  /**
+   * Pick the storage adapter for the configured storage type.
+   */
+  private createStorage(config: CacheConfig): StorageAdapter | AsyncStorageAdapter {
+    if (!this.enabled) {
+      // Use memory storage when caching is disabled
+      return new MemoryStorageAdapter()
+    }
+
+    if (config.storage === 'memory') {
+      return new MemoryStorageAdapter()
+    }
+
+    if (config.storage && typeof config.storage === 'object') {
+      return config.storage
+    }
+
+    // Try to use the requested storage type with fallback
+    try {
+      if (config.storage === 'sessionStorage' && typeof sessionStorage !== 'undefined') {
+        // Test if sessionStorage is accessible (some browsers disable it in private mode)
+        sessionStorage.setItem('__vms_test__', 'test')
+        sessionStorage.removeItem('__vms_test__')
+        return new SessionStorageAdapter()
+      } else if (typeof localStorage !== 'undefined') {
+        // Test if localStorage is accessible
+        localStorage.setItem('__vms_test__', 'test')
+        localStorage.removeItem('__vms_test__')
+        return new LocalStorageAdapter()
+      } else {
+        throw new Error('No browser storage available')
+      }
+    } catch {
+      // Fallback to memory storage if browser storage is not available
+      console.warn('VMS SDK: Browser storage not available, using in-memory cache')
+      return new MemoryStorageAdapter()
+    }
+  }
+
+  /**
+   * Memory and sessionStorage are private to this tab; other storages are shared.
+   */
+  private isShared(storage: StorageAdapter | AsyncStorageAdapter): boolean {
+    return !(storage instanceof MemoryStorageAdapter || storage instanceof SessionStorageAdapter)
+  }
+
+  /**
+   * Listen for cache changes in other tabs. Uses BroadcastChannel, or
+   * `storage` events for localStorage where BroadcastChannel is missing.
+   * Only browsers sync: on a server every client in the process would sync
+   * with the others, and the channel would keep the process running.
+   */
+  private startSync(): void {
+    if (typeof window === 'undefined') {
+      return
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      const channel: BroadcastChannel & { unref?: () => void } = new BroadcastChannel(SYNC_CHANNEL)
+      channel.onmessage = (message: MessageEvent<SyncEvent>) => {
+        void this.receive(message.data)
+      }
+      // Node-based browser environments (jsdom, Electron) must still be able to exit
+      channel.unref?.()
+      this.channel = channel
+      return
+    }
+
+    if (this.storage instanceof LocalStorageAdapter && window.addEventListener) {
+      this.storageListener = event => {
+        if (event.key === null) {
+          void this.receive({ type: 'clear' })
+        } else if (event.key.startsWith(`${this.keyNamespace}:`)) {
+          void this.receive({ type: event.newValue === null ? 'remove' : 'set', keys: [event.key] })
+        }
+      }
+      window.addEventListener('storage', this.storageListener)
+    }
+  }
+
+  /**
+   * Tell other tabs about a change made here.
+   */
+  private broadcast(event: SyncEvent): void {
+    try {
+      this.channel?.postMessage(event)
+    } catch {
+      // A closed channel just stops syncing
+    }
+  }
+
+  /**
+   * Apply a change made in another tab. Shared storage already holds the
+   * change, so only in-memory state is updated; tab-private storage drops
+   * the affected entries so they are fetched again.
+   */
+  private async receive(event: SyncEvent): Promise<void> {
+    try {
+      switch (event.type) {
+        case 'set':
+          for (const key of event.keys ?? []) {
+            if (this.shared) {
+              this.memory?.delete(key)
+            } else {
+              await this.delete(key)
+            }
+          }
+          break
+        case 'remove':
+          for (const key of event.keys ?? []) {
+            await this.delete(key)
+          }
+          break
+        case 'clear':
+          if (!this.shared) {
+            await this.storage.clear()
+          }
+          this.memory?.clear()
+          this.index = null
+          break
+        case 'invalidate':
+          if (!this.shared) {
+            await this.removeTagged(event.tags ?? [])
+          }
+          for (const key of event.keys ?? []) {
+            this.memory?.delete(key)
+          }
+          this.index = null
+          break
+      }
+    } catch {
+      // Ignore sync errors; entries expire on their own
+    }
+
+    this.onSync?.(event)
+  }
+
+  /**
+   * Create the in-memory tier of decoded entries, unless turned off.
+   */
+  private createMemoryTier(config: CacheConfig): MemoryTier | null {
+    if (!this.enabled || config.memoryCache === false) {
+      return null
+    }
+    return new MemoryTier(config.memoryCache ?? {})
+  }
+
+  /**
+   * Create the binary asset tier. Only used with browser storage; a custom
+   * or memory storage keeps assets alongside content unless a binary store
+   * is requested explicitly.
+   */
+  private createAssetCache(config: CacheConfig): AssetCache | null {
+    const assetStorage = config.assetStorage ?? 'auto'
+    const usesBrowserStorage = config.storage === undefined ||
+      config.storage === 'localStorage' ||
+      config.storage === 'sessionStorage'
+
+    if (!this.enabled || assetStorage === 'storage' || (assetStorage === 'auto' && !usesBrowserStorage)) {
+      return null
+    }
+
+    const store = createAssetStore(assetStorage)
+    return store
+      ? new AssetCache(store, this.ttl, {
+          logger: this.logger,
+          onLookup: (key, hit) => this.count(key, hit ? 'hits' : 'misses'),
+          onEvict: key => {
+            this.evictions++
+            this.count(key, 'evictions')
+          },
+        })
+      : null
+  }
+
   /**
    * Simple hash function for cache keys.
    */
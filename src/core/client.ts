@@ -3,16 +3,31 @@
  */
 
 import type {
+  CacheConfig,
   VibeCMSConfig,
   ResolvedVibeCMSConfig,
+  ReadOptions,
+  RequestControlOptions,
   VibeCMSError
 } from '../types/config.js'
-import { validateLocale } from '../types/config.js'
+import { ValidationError, validateLocale } from '../types/config.js'
 import type { PublicContentItem, AssetUrlOptions, DownloadAssetOptions, AssetData } from '../types/api.js'
-import { BrowserCache } from './cache.js'
-import { Fetcher } from './fetcher.js'
+import type {
+  CacheInspection,
+  CacheReconfigureOptions,
+  DehydratedCache,
+  InvalidateOptions
+} from '../types/cache.js'
+import type { Middleware } from '../types/middleware.js'
+import type { SyncEvent, VersionEvent, VibeCMSEvents, VibeCMSEventListener } from '../types/events.js'
+import { BrowserCache, cacheTags } from './cache.js'
+import { Fetcher, resolveRetryConfig, toRequestOptions } from './fetcher.js'
 import { CollectionQuery } from './collection.js'
 import { AssetManager } from './asset.js'
+import { Logger } from './logger.js'
+import { getAuthScope } from './auth.js'
+import { EventEmitter } from './events.js'
+import { ManifestWatcher, resolveManifestConfig } from './manifest.js'
 
 /**
  * Default configuration values.
@@ -20,10 +35,19 @@ import { AssetManager } from './asset.js'
 const DEFAULT_CONFIG = {
   baseUrl: 'https://api.vibe-cms.com',
   locale: 'en-US',
+  timeout: 30000, // 30 seconds
   cache: {
     enabled: true,
     ttl: 300000, // 5 minutes
+    negativeTtl: 60000, // 1 minute
     storage: 'localStorage' as const,
+    strategy: 'cache-first' as const,
+    assetStorage: 'auto' as const,
+    maxEntries: 1000,
+    maxBytes: Infinity,
+    memoryCache: {},
+    cacheVersion: '',
+    sync: true,
   },
 } as const
 
@@ -50,17 +74,21 @@ export class VibeCMSClient {
   private readonly config: ResolvedVibeCMSConfig
   private readonly fetcher: Fetcher
   private readonly browserCache: BrowserCache
+  private readonly logger: Logger
+  private readonly events: EventEmitter<VibeCMSEvents>
+  private readonly manifest: ManifestWatcher
   private assetManager: AssetManager
+  private previewClient: { token: string | undefined; client: VibeCMSClient } | null = null
   private currentLocale: string
 
   constructor(config: VibeCMSConfig) {
     // Validate project ID format
     if (!config.projectId) {
-      throw new Error('VMS SDK: projectId is required')
+      throw new ValidationError('VMS SDK: projectId is required')
     }
     
     if (!PROJECT_ID_PATTERN.test(config.projectId)) {
-      throw new Error(
+      throw new ValidationError(
         'VMS SDK: Invalid projectId format. Must contain only letters, numbers, underscores, and hyphens.'
       )
     }
@@ -68,12 +96,13 @@ export class VibeCMSClient {
     // Validate locale if provided
     const locale = config.locale || DEFAULT_CONFIG.locale
     if (!validateLocale(locale)) {
-      throw new Error(
+      throw new ValidationError(
         `VMS SDK: Invalid locale format '${locale}'. Must be BCP 47 format (e.g., 'en-US', 'fr', 'zh-CN') with 2-20 characters.`
       )
     }
 
     // Resolve configuration with defaults
+    const manifest = resolveManifestConfig(config.manifest)
     this.config = {
       projectId: config.projectId,
       baseUrl: config.baseUrl || DEFAULT_CONFIG.baseUrl,
@@ -81,8 +110,26 @@ export class VibeCMSClient {
       cache: {
         enabled: config.cache?.enabled ?? DEFAULT_CONFIG.cache.enabled,
         ttl: config.cache?.ttl ?? DEFAULT_CONFIG.cache.ttl,
+        negativeTtl: config.cache?.negativeTtl ?? DEFAULT_CONFIG.cache.negativeTtl,
+        collections: { ...config.cache?.collections },
         storage: config.cache?.storage ?? DEFAULT_CONFIG.cache.storage,
+        strategy: config.cache?.strategy ?? DEFAULT_CONFIG.cache.strategy,
+        assetStorage: config.cache?.assetStorage ?? DEFAULT_CONFIG.cache.assetStorage,
+        maxEntries: config.cache?.maxEntries ?? DEFAULT_CONFIG.cache.maxEntries,
+        maxBytes: config.cache?.maxBytes ?? DEFAULT_CONFIG.cache.maxBytes,
+        memoryCache: config.cache?.memoryCache ?? DEFAULT_CONFIG.cache.memoryCache,
+        sync: config.cache?.sync ?? DEFAULT_CONFIG.cache.sync,
+        cacheVersion: config.cache?.cacheVersion ?? DEFAULT_CONFIG.cache.cacheVersion,
+        codecs: [...(config.cache?.codecs ?? [])],
       },
+      middleware: [...(config.middleware ?? [])],
+      retry: resolveRetryConfig(config.retry),
+      dedupe: config.dedupe ?? true,
+      logger: { ...config.logger, level: config.logger?.level ?? 'silent' },
+      timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
+      ...(config.auth ? { auth: config.auth } : {}),
+      ...(config.preview ? { preview: config.preview === true ? {} : { ...config.preview } } : {}),
+      ...(manifest ? { manifest } : {}),
     }
 
     // Store public properties
@@ -91,14 +138,31 @@ export class VibeCMSClient {
     this.currentLocale = this.config.locale
 
     // Initialize core components
-    this.fetcher = new Fetcher(this.config.baseUrl)
-    this.browserCache = new BrowserCache(this.config.cache)
+    this.logger = new Logger(this.config.logger)
+    this.events = new EventEmitter(this.logger)
+    this.fetcher = new Fetcher(this.config.baseUrl, {
+      middleware: this.config.middleware,
+      retry: this.config.retry,
+      dedupe: this.config.dedupe,
+      logger: this.logger,
+      timeout: this.config.timeout,
+      ...(this.config.auth ? { auth: this.config.auth } : {}),
+      ...(this.config.preview?.token ? { previewToken: this.config.preview.token } : {}),
+    })
+    this.browserCache = this.createCache()
     this.assetManager = new AssetManager(
       this.fetcher,
       this.browserCache,
       this.projectId,
       this.currentLocale
     )
+    this.manifest = new ManifestWatcher(this.fetcher, this.browserCache, this.projectId, {
+      logger: this.logger,
+      onChange: event => this.events.emit('version', event),
+    })
+    if (this.config.manifest) {
+      this.manifest.start(this.config.manifest)
+    }
   }
 
   /**
@@ -108,11 +172,11 @@ export class VibeCMSClient {
   collection<T = PublicContentItem>(collectionSlug: string): CollectionQuery<T> {
     // Validate collection slug format
     if (!collectionSlug) {
-      throw new Error('VMS SDK: Collection slug is required')
+      throw new ValidationError('VMS SDK: Collection slug is required')
     }
 
     if (!COLLECTION_SLUG_PATTERN.test(collectionSlug)) {
-      throw new Error(
+      throw new ValidationError(
         'VMS SDK: Invalid collection slug format. Must contain only lowercase letters, numbers, underscores, and hyphens.'
       )
     }
@@ -123,17 +187,104 @@ export class VibeCMSClient {
       this.projectId,
       collectionSlug,
       this.currentLocale,
-      this.assetManager
+      this.assetManager,
+      { logger: this.logger, preview: this.isPreview, events: this.events }
     )
   }
 
+  /**
+   * Subscribe to client events. Returns a function that unsubscribes.
+   * - `update`: a background refresh found changed content for a query
+   * - `sync`: another tab changed the cache
+   * - `version`: the content manifest reported published changes, and the changed collections were invalidated
+   *
+   * @example
+   * ```typescript
+   * cms.on('update', ({ collection, data }) => store.set(collection, data))
+   * ```
+   */
+  on<K extends keyof VibeCMSEvents>(event: K, listener: VibeCMSEventListener<VibeCMSEvents[K]>): () => void {
+    return this.events.on(event, listener)
+  }
+
+  /**
+   * Stop background work such as cross-tab cache sync and manifest polling.
+   * Call this when discarding a client; it keeps working for queries.
+   */
+  destroy(): void {
+    this.browserCache.destroy()
+    this.manifest.stop()
+    this.previewClient?.client.destroy()
+  }
+
+  /**
+   * Whether this client reads unpublished preview content.
+   */
+  get isPreview(): boolean {
+    return this.config.preview !== undefined
+  }
+
+  /**
+   * Get a client that reads unpublished content through the preview API.
+   * It shares this client's configuration, credentials, locale and middleware;
+   * preview content never shares cache entries with published content.
+   * Calls with the same token return the same client; a new token replaces
+   * it, and the previous client's background work is stopped.
+   *
+   * @example
+   * ```typescript
+   * const draft = await cms.preview(previewToken).collection('blog_posts').item(id)
+   * ```
+   */
+  preview(token?: string): VibeCMSClient {
+    const previous = this.previewClient
+    if (previous && previous.token === token) {
+      if (previous.client.getLocale() !== this.currentLocale) {
+        previous.client.setLocale(this.currentLocale)
+      }
+      return previous.client
+    }
+
+    previous?.client.destroy()
+    const client = new VibeCMSClient({
+      ...this.config,
+      locale: this.currentLocale,
+      middleware: [...this.config.middleware],
+      preview: { ...this.config.preview, ...(token !== undefined ? { token } : {}) },
+      // Unpublished content doesn't follow the published content version
+      manifest: false,
+    })
+    this.previewClient = { token, client }
+    return client
+  }
+
+  /**
+   * Add a middleware to the request pipeline at runtime.
+   * It runs after any middleware passed through the config, for all subsequent requests
+   * (content queries, asset downloads and ping).
+   *
+   * @example
+   * ```typescript
+   * cms.use(async (request, next) => {
+   *   request.headers['X-Client'] = 'my-app'
+   *   return next(request)
+   * })
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.config.middleware.push(middleware)
+    this.fetcher.use(middleware)
+    this.previewClient?.client.use(middleware)
+    return this
+  }
+
   /**
    * Set the current locale for content requests.
    * This affects all subsequent content queries and uses separate cache per locale.
    */
   setLocale(locale: string): void {
     if (!validateLocale(locale)) {
-      throw new Error(
+      throw new ValidationError(
         `VMS SDK: Invalid locale format '${locale}'. Must be BCP 47 format (e.g., 'en-US', 'fr', 'zh-CN') with 2-20 characters.`
       )
     }
@@ -177,21 +328,38 @@ export class VibeCMSClient {
    */
   async clearLocaleCache(locale: string): Promise<void> {
     if (!validateLocale(locale)) {
-      throw new Error(
+      throw new ValidationError(
         `VMS SDK: Invalid locale format '${locale}'. Must be BCP 47 format (e.g., 'en-US', 'fr', 'zh-CN') with 2-20 characters.`
       )
     }
     await this.browserCache.clearLocaleCache(this.projectId, locale)
   }
 
+  /**
+   * Fetch the project's content manifest now and invalidate the collections
+   * whose content changed since the last check. Returns the change, or null
+   * when nothing was published since. With the `manifest` option this also
+   * runs on an interval and when the page regains focus.
+   *
+   * @example
+   * ```typescript
+   * // e.g. from a webhook-driven push message
+   * const change = await cms.checkForUpdates()
+   * if (change?.collections?.includes('blog_posts')) refreshPosts()
+   * ```
+   */
+  async checkForUpdates(options: RequestControlOptions = {}): Promise<VersionEvent | null> {
+    return this.manifest.check(options)
+  }
+
   /**
    * Check if the client can connect to the API.
    * Makes a request to the health endpoint to verify connectivity.
    */
-  async ping(): Promise<{ success: boolean; status: string; timestamp: string }> {
+  async ping(options: RequestControlOptions = {}): Promise<{ success: boolean; status: string; timestamp: string }> {
     try {
       // Try to fetch a simple endpoint to verify connectivity
-      const response = await this.fetcher.get<any>('/health')
+      await this.fetcher.get<any>('/health', toRequestOptions(options))
       
       return {
         success: true,
@@ -214,6 +382,37 @@ export class VibeCMSClient {
     return { ...this.config }
   }
 
+  /**
+   * Create the cache for this client. Content fetched with credentials or in
+   * preview mode is cached in its own partition; preview content is only
+   * cached when `preview.cache` is set.
+   */
+  private createCache(): BrowserCache {
+    const { auth, preview } = this.config
+    const authScope = getAuthScope(auth, this.cacheSettings().enabled)
+    const onSync = (event: SyncEvent) => this.events.emit('sync', event)
+
+    if (!preview) {
+      return new BrowserCache(this.cacheSettings(), {
+        ...(authScope ? { scope: authScope } : {}),
+        onSync,
+        logger: this.logger,
+        projectId: this.config.projectId,
+      })
+    }
+
+    const scope = authScope ? `preview.${authScope}` : 'preview'
+    return new BrowserCache(this.cacheSettings(), { scope, onSync, logger: this.logger, projectId: this.config.projectId })
+  }
+
+  /**
+   * The cache configuration in effect, with preview caching applied.
+   */
+  private cacheSettings(cache = this.config.cache): CacheConfig {
+    const { preview } = this.config
+    return preview ? { ...cache, enabled: cache.enabled && (preview.cache ?? false) } : { ...cache }
+  }
+
   /**
    * Get cache statistics.
    * Returns information about cache usage and performance.
@@ -223,48 +422,74 @@ export class VibeCMSClient {
     storage: string
     ttl: number
     keys: number
+    bytes: number
+    evictions: number
+    hits: number
+    misses: number
   }> {
     const keys = this.config.cache.enabled ? 
       await this.getCacheKeys() : []
+    const usage = await this.browserCache.usage()
+    const { counters } = await this.browserCache.inspect(this.projectId)
 
     return {
       enabled: this.config.cache.enabled,
-      storage: this.config.cache.storage,
+      storage: typeof this.config.cache.storage === 'string' ? this.config.cache.storage : 'custom',
       ttl: this.config.cache.ttl,
       keys: keys.length,
+      bytes: usage.bytes,
+      evictions: usage.evictions,
+      hits: counters.hits,
+      misses: counters.misses,
     }
   }
 
+  /**
+   * List this project's cached entries with their collection, locale, query
+   * type, size, age and remaining TTL, plus totals by locale and for content
+   * vs assets, and hit/miss/eviction counters per collection. For debugging;
+   * it reads every entry, so avoid calling it on hot paths.
+   *
+   * @example
+   * ```typescript
+   * const { entries, collections } = await cms.inspectCache()
+   * console.table(entries.map(({ collection, locale, queryType, bytes, remainingTtl }) =>
+   *   ({ collection, locale, queryType, bytes, remainingTtl })))
+   * console.log(collections.blog_posts) // { hits: 12, misses: 3, evictions: 0 }
+   * ```
+   */
+  async inspectCache(): Promise<CacheInspection> {
+    return this.browserCache.inspect(this.projectId)
+  }
+
   /**
    * Get all cache keys for this project.
    */
   private async getCacheKeys(): Promise<string[]> {
-    try {
-      const storage = this.config.cache.storage === 'sessionStorage' 
-        ? sessionStorage 
-        : localStorage
-        
-      const allKeys = Object.keys(storage)
-      return allKeys.filter(key => key.startsWith(`vms:${this.projectId}:`))
-    } catch {
-      return []
-    }
+    const keys = await this.browserCache.keys()
+    return keys.filter(key => key.startsWith(`${this.browserCache.namespace}:${this.projectId}:`))
   }
 
   /**
-   * Enable or disable caching at runtime.
-   * Note: This creates a new cache instance, so existing cached data may be lost.
+   * Change cache settings at runtime, e.g. when storage consent is given or
+   * withdrawn. Collections and assets already created from this client use
+   * the new settings from their next call. Entries stay in the old storage
+   * unless `migrate` is set, which moves them to the new one.
+   *
+   * @example
+   * ```typescript
+   * // Consent withdrawn: keep the session's content in memory only
+   * await cms.reconfigureCache({ storage: 'memory' }, { migrate: true })
+   * ```
    */
-  reconfigureCache(cacheConfig: Partial<typeof this.config.cache>): void {
-    // Update cache configuration
+  async reconfigureCache(
+    cacheConfig: Partial<typeof this.config.cache>,
+    options: CacheReconfigureOptions = {}
+  ): Promise<void> {
+    // Throws when enabling the cache for a token provider without a scope
+    getAuthScope(this.config.auth, this.cacheSettings({ ...this.config.cache, ...cacheConfig }).enabled)
     Object.assign(this.config.cache, cacheConfig)
-    
-    // Note: We don't recreate the BrowserCache instance here because it would
-    // require updating all existing CollectionQuery instances. Instead, users
-    // should create a new client instance if they need to change cache settings.
-    console.warn(
-      'VMS SDK: Cache reconfiguration requires creating a new client instance to take effect.'
-    )
+    await this.browserCache.reconfigure(this.cacheSettings(), options)
   }
 
   /**
@@ -292,6 +517,53 @@ export class VibeCMSClient {
     return this.assetManager.downloadAsset(assetId, options)
   }
 
+  /**
+   * Remove every cached entry matching all given fields, across locales
+   * unless `locale` is set. Lists containing a matching item are removed too.
+   * Returns the number of entries removed.
+   *
+   * @example
+   * ```typescript
+   * await cms.invalidate({ collection: 'blog_posts' })        // every query, every locale
+   * await cms.invalidate({ itemId: 'post-1' })                // the item and lists containing it
+   * await cms.invalidate({ collection: 'blog_posts', locale: 'fr-FR' })
+   * await cms.invalidate({ tag: 'homepage' })                 // entries queried with tags: ['homepage']
+   * ```
+   */
+  async invalidate(match: InvalidateOptions = {}): Promise<number> {
+    return this.browserCache.invalidate(cacheTags(this.projectId, match))
+  }
+
+  /**
+   * Serialize the cache entries read or written since the client was created
+   * (or last dehydrated), e.g. during a server render, so the browser can
+   * start from them with `hydrate` instead of fetching again.
+   *
+   * @example
+   * ```typescript
+   * // Server
+   * const cms = createVibeCMS({ projectId, cache: { storage: 'memory' } })
+   * const posts = await cms.collection('blog_posts').many()
+   * const state = JSON.stringify(await cms.dehydrate())
+   *
+   * // Browser
+   * await cms.hydrate(window.__VMS_STATE__)
+   * ```
+   */
+  async dehydrate(): Promise<DehydratedCache> {
+    return this.browserCache.dehydrate()
+  }
+
+  /**
+   * Seed the cache with the output of `dehydrate`, as an object or JSON
+   * string. Keys and timestamps are kept, so entries expire as if cached
+   * here. Queries started meanwhile wait for hydration to finish.
+   * Returns the number of entries written.
+   */
+  async hydrate(state: DehydratedCache | string): Promise<number> {
+    return this.browserCache.hydrate(state)
+  }
+
   /**
    * Clear all cached asset data for this project.
    * Useful when you know assets have been updated and want to force fresh requests.
@@ -308,12 +580,12 @@ export class VibeCMSClient {
     const collection = this.collection<T>(collectionSlug)
 
     return {
-      first: () => collection.first(),
+      first: (options?: ReadOptions) => collection.first(options),
       many: (options?: Parameters<typeof collection.many>[0]) => collection.many(options),
-      all: () => collection.all(),
-      item: (itemId: string) => collection.item(itemId),
+      all: (options?: ReadOptions) => collection.all(options),
+      item: (itemId: string, options?: ReadOptions) => collection.item(itemId, options),
       clearCache: () => collection.clearCache(),
-      getInfo: () => collection.getCollectionInfo(),
+      getInfo: (options?: RequestControlOptions) => collection.getCollectionInfo(options),
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,214 @@
+/**
+ * Cache entry codecs for VMS SDK.
+ * An LZ compressor to fit more entries into the storage quota, and AES-GCM
+ * encryption through WebCrypto for content that shouldn't be stored in
+ * plaintext.
+ */
+
+import type { CacheCodec } from '../types/cache.js'
+
+/**
+ * Compressed output is written as UTF-16 code units from this offset up to
+ * the surrogate range, so it stays valid in any string storage.
+ */
+const LZ_OFFSET = 32
+const LZ_LITERAL = LZ_OFFSET
+const LZ_LONG_CODE = LZ_OFFSET + 1
+const LZ_FIRST_CODE_CHAR = LZ_OFFSET + 2
+const LZ_MAX_CHAR = 0xd7ff
+const LZ_MAX_SHORT_CODE = LZ_MAX_CHAR - LZ_FIRST_CODE_CHAR
+const LZ_LONG_BASE = 0x8000
+
+/**
+ * Length in bytes of the AES-GCM initialization vector.
+ */
+const AES_IV_LENGTH = 12
+
+/**
+ * Create an LZ compressor for cache entries. JSON with repeated field names
+ * and values typically shrinks to a third or less, stretching the storage
+ * quota. Compression runs on every write, so it pays off most for large
+ * collections.
+ *
+ * @example
+ * ```typescript
+ * const cms = createVibeCMS({ projectId, cache: { codecs: [createLzCodec()] } })
+ * ```
+ */
+export function createLzCodec(): CacheCodec {
+  return {
+    name: 'lz',
+    encode: lzCompress,
+    decode: lzDecompress,
+  }
+}
+
+/**
+ * Create an AES-GCM codec that encrypts cache entries with WebCrypto.
+ * The key must allow `encrypt` and `decrypt`; it may also be given as a
+ * function, e.g. to derive it lazily. Entries that fail to decrypt, for
+ * example after the key changed, are treated as cache misses.
+ *
+ * @example
+ * ```typescript
+ * const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+ * const cms = createVibeCMS({ projectId, cache: { codecs: [createLzCodec(), createAesGcmCodec(key)] } })
+ * ```
+ */
+export function createAesGcmCodec(key: CryptoKey | (() => CryptoKey | Promise<CryptoKey>)): CacheCodec {
+  let resolved: Promise<CryptoKey> | null = null
+  const getKey = () => {
+    if (!resolved) {
+      resolved = Promise.resolve(typeof key === 'function' ? key() : key)
+      // Let a failed provider be retried on the next entry
+      resolved.catch(() => {
+        resolved = null
+      })
+    }
+    return resolved
+  }
+
+  return {
+    name: 'aes-gcm',
+    async encode(value) {
+      const iv = crypto.getRandomValues(new Uint8Array(AES_IV_LENGTH))
+      const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getKey(), new TextEncoder().encode(value))
+      const bytes = new Uint8Array(AES_IV_LENGTH + encrypted.byteLength)
+      bytes.set(iv)
+      bytes.set(new Uint8Array(encrypted), AES_IV_LENGTH)
+      return bytesToBase64(bytes)
+    },
+    async decode(value) {
+      const bytes = base64ToBytes(value)
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: bytes.slice(0, AES_IV_LENGTH) },
+        await getKey(),
+        bytes.slice(AES_IV_LENGTH)
+      )
+      return new TextDecoder().decode(decrypted)
+    },
+  }
+}
+
+/**
+ * Compress a string with LZW, adding characters to the dictionary as they
+ * first appear. Codes are written one per character, or as three characters
+ * once the dictionary outgrows the direct range.
+ */
+function lzCompress(value: string): string {
+  const dictionary = new Map<string, number>()
+  const pending = new Set<string>()
+  const output: string[] = []
+  let phrase = ''
+
+  const writeCode = (code: number) => {
+    if (code <= LZ_MAX_SHORT_CODE) {
+      output.push(String.fromCharCode(code + LZ_FIRST_CODE_CHAR))
+    } else {
+      output.push(
+        String.fromCharCode(LZ_LONG_CODE),
+        String.fromCharCode(Math.floor(code / LZ_LONG_BASE) + LZ_OFFSET),
+        String.fromCharCode((code % LZ_LONG_BASE) + LZ_OFFSET)
+      )
+    }
+  }
+
+  const writePhrase = () => {
+    if (pending.has(phrase)) {
+      // First use of a character: write it out, split into two bytes
+      const unit = phrase.charCodeAt(0)
+      output.push(
+        String.fromCharCode(LZ_LITERAL),
+        String.fromCharCode((unit >> 8) + LZ_OFFSET),
+        String.fromCharCode((unit & 0xff) + LZ_OFFSET)
+      )
+      pending.delete(phrase)
+    } else {
+      writeCode(dictionary.get(phrase)!)
+    }
+  }
+
+  for (const char of value.split('')) {
+    if (!dictionary.has(char)) {
+      dictionary.set(char, dictionary.size)
+      pending.add(char)
+    }
+
+    const extended = phrase + char
+    if (dictionary.has(extended)) {
+      phrase = extended
+    } else {
+      writePhrase()
+      dictionary.set(extended, dictionary.size)
+      phrase = char
+    }
+  }
+
+  if (phrase) {
+    writePhrase()
+  }
+  return output.join('')
+}
+
+/**
+ * Reverse `lzCompress`. Throws on input it didn't produce.
+ */
+function lzDecompress(value: string): string {
+  const dictionary: string[] = []
+  const output: string[] = []
+  let previous = ''
+  let position = 0
+
+  const next = () => {
+    if (position >= value.length) {
+      throw new Error('VMS SDK: Truncated compressed cache entry')
+    }
+    return value.charCodeAt(position++) - LZ_OFFSET
+  }
+
+  while (position < value.length) {
+    const marker = value.charCodeAt(position++)
+    let entry: string | undefined
+
+    if (marker === LZ_LITERAL) {
+      entry = String.fromCharCode((next() << 8) | next())
+      dictionary.push(entry)
+    } else {
+      const code = marker === LZ_LONG_CODE ? next() * LZ_LONG_BASE + next() : marker - LZ_FIRST_CODE_CHAR
+      entry = dictionary[code] ?? (code === dictionary.length && previous ? previous + previous[0] : undefined)
+    }
+
+    if (entry === undefined) {
+      throw new Error('VMS SDK: Invalid compressed cache entry')
+    }
+    if (previous) {
+      dictionary.push(previous + entry[0])
+    }
+    output.push(entry)
+    previous = entry
+  }
+  return output.join('')
+}
+
+/**
+ * Encode bytes as base64.
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]!)
+  }
+  return btoa(binary)
+}
+
+/**
+ * Decode base64 into bytes.
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
@@ -6,36 +6,149 @@
 import type {
   PublicContentItem
 } from '../types/api.js'
-import type { QueryOptions } from '../types/config.js'
+import { NotFoundError, ValidationError, VibeCMSError } from '../types/config.js'
+import type {
+  CacheStrategy,
+  CollectionCachePolicy,
+  QueryOptions,
+  ReadOptions,
+  RequestControlOptions
+} from '../types/config.js'
+import type { CacheLookup } from '../types/cache.js'
+import type { UpdateEvent, VibeCMSEvents } from '../types/events.js'
+import { cacheTags } from './cache.js'
 import type { BrowserCache } from './cache.js'
-import type { Fetcher } from './fetcher.js'
+import { toRequestOptions } from './fetcher.js'
+import type { ConditionalResult, Fetcher } from './fetcher.js'
 import type { AssetManager } from './asset.js'
 import { CollectionResult } from './result.js'
+import type { CollectionQueryResult } from './result.js'
+import { Logger } from './logger.js'
+import { EventEmitter } from './events.js'
+
+/**
+ * Cache overrides for a single query, set with `.ttl()`, `.noCache()` and `.fresh()`.
+ */
+export interface QueryCacheOverrides {
+  /** TTL for entries written by this query; older entries count as expired */
+  ttl?: number
+  /** 'no-cache' skips the cache; 'fresh' skips cached data but updates the cache */
+  mode?: 'no-cache' | 'fresh'
+}
+
+/**
+ * A cached list stored as references to item entries.
+ */
+interface EntityRefs {
+  /** IDs of the items, in order */
+  $refs: string[]
+}
+
+/**
+ * Check whether cached data is a list of item references.
+ */
+function isEntityRefs(value: unknown): value is EntityRefs {
+  return typeof value === 'object' && value !== null && Array.isArray((value as EntityRefs).$refs)
+}
+
+/**
+ * Optional collaborators for a collection query.
+ */
+export interface CollectionQueryOptions {
+  /** Logger for cache and query events (default: silent) */
+  logger?: Logger
+  /** Query preview endpoints, which include unpublished content (default: false) */
+  preview?: boolean
+  /** Emitter for update events, shared with the client (default: a private one) */
+  events?: EventEmitter<VibeCMSEvents>
+  /** Cache overrides for this query (default: none) */
+  overrides?: QueryCacheOverrides
+}
+
+/**
+ * A query to load through the cache.
+ */
+interface LoadRequest<T> {
+  /** Cache key of the query */
+  key: string
+  /** API endpoint to fetch */
+  endpoint: string
+  /** Query type, reported in update events */
+  queryType: UpdateEvent['queryType']
+  /** Item ID for item queries */
+  itemId?: string
+  /** Custom tags for the cache entry */
+  tags: string[]
+  /** Cache the result's items as item entries and reference them */
+  normalize?: 'list' | 'single'
+  /** Pick the value to cache from the response; `negative` marks empty results */
+  select: (data: any) => { value: CollectionQueryResult<T>; negative?: boolean }
+}
 
 /**
  * Chainable collection query class.
  * Provides .first(), .many(), and .all() methods for content retrieval.
  */
 export class CollectionQuery<T = PublicContentItem> {
+  private readonly logger: Logger
+  private readonly preview: boolean
+  private readonly events: EventEmitter<VibeCMSEvents>
+  private readonly overrides: QueryCacheOverrides
+
   constructor(
     private readonly fetcher: Fetcher,
     private readonly cache: BrowserCache,
     private readonly projectId: string,
     private readonly collectionSlug: string,
     private readonly locale: string,
-    private readonly assetManager: AssetManager
-  ) {}
+    private readonly assetManager: AssetManager,
+    options: CollectionQueryOptions = {}
+  ) {
+    this.logger = options.logger ?? new Logger()
+    this.preview = options.preview ?? false
+    this.events = options.events ?? new EventEmitter(this.logger)
+    this.overrides = options.overrides ?? {}
+  }
+
+  /**
+   * Cache results of this query for `ms` milliseconds instead of the
+   * collection's TTL. Cached entries older than that are treated as expired.
+   * Returns a new query; this one is unchanged.
+   *
+   * @example
+   * ```typescript
+   * const news = await cms.collection('news').ttl(30000).many()
+   * ```
+   */
+  ttl(ms: number): CollectionQuery<T> {
+    if (!Number.isFinite(ms) || ms < 0) {
+      throw new ValidationError('VMS SDK: TTL must be a non-negative number')
+    }
+    return this.withOverrides({ ttl: ms })
+  }
+
+  /**
+   * Neither read nor write the cache for this query.
+   * Returns a new query; this one is unchanged.
+   */
+  noCache(): CollectionQuery<T> {
+    return this.withOverrides({ mode: 'no-cache' })
+  }
+
+  /**
+   * Skip cached data and fetch, updating the cache with the result.
+   * Cached validators are still sent, so unchanged content costs a 304.
+   * Returns a new query; this one is unchanged.
+   */
+  fresh(): CollectionQuery<T> {
+    return this.withOverrides({ mode: 'fresh' })
+  }
 
   /**
    * Get the first item from the collection.
    * Returns a CollectionResult wrapping the first item, or null if the collection is empty.
    */
-  async first(): Promise<CollectionResult<T>> {
-    console.log('🔍 SDK DEBUG: CollectionQuery.first() called for:', {
-      projectId: this.projectId,
-      collectionSlug: this.collectionSlug
-    })
-
+  async first(options: ReadOptions = {}): Promise<CollectionResult<T>> {
     const cacheKey = this.cache.generateKey({
       projectId: this.projectId,
       collectionSlug: this.collectionSlug,
@@ -43,49 +156,21 @@ export class CollectionQuery<T = PublicContentItem> {
       locale: this.locale,
     })
 
-    // Try cache first
-    const cached = await this.cache.get<T>(cacheKey)
-    if (cached !== null) {
-      console.log('🔍 SDK DEBUG: Cache hit for first()')
-      return new CollectionResult(cached, this.assetManager)
-    }
-
-    console.log('🔍 SDK DEBUG: Cache miss, making API request to fetcher.get()')
-
-    try {
-      // Fetch items from the collection - API returns plain array
-      const items = await this.fetcher.get<PublicContentItem[]>(
-        `/api/public/${this.projectId}/${this.collectionSlug}?locale=${encodeURIComponent(this.locale)}`
-      )
-
-      console.log('🔍 SDK DEBUG: API response received:', {
-        isArray: Array.isArray(items),
-        itemCount: items.length
-      })
-
-      const firstItem = items[0] || null
-
-      console.log('🔍 SDK DEBUG: First item result:', {
-        hasFirstItem: !!firstItem,
-        firstItemKeys: firstItem && typeof firstItem === 'object' ? Object.keys(firstItem) : 'not-object'
-      })
-
-      // Cache the result
-      if (firstItem) {
-        await this.cache.set(cacheKey, firstItem as T)
-        console.log('🔍 SDK DEBUG: Cached first item result')
-      } else {
+    // Fetch items from the collection - API returns plain array
+    const firstItem = await this.load({
+      key: cacheKey,
+      endpoint: this.buildEndpoint(),
+      queryType: 'first',
+      tags: options.tags ?? [],
+      normalize: 'single',
+      select: (items: PublicContentItem[]) => {
+        const item = (items[0] || null) as T | null
         // Cache the null result for a shorter time to avoid unnecessary requests
-        await this.cache.set(cacheKey, null as T, 60000) // 1 minute for null results
-        console.log('🔍 SDK DEBUG: Cached null result for first item')
-      }
+        return item ? { value: item } : { value: null, negative: true }
+      },
+    }, options)
 
-      return new CollectionResult(firstItem as T, this.assetManager)
-    } catch (error) {
-      console.log('🔍 SDK DEBUG: Error in first() method:', error)
-      // Don't cache errors, let them bubble up
-      throw error
-    }
+    return this.toResult(firstItem)
   }
 
   /**
@@ -103,78 +188,61 @@ export class CollectionQuery<T = PublicContentItem> {
       ...(limit ? { params: { limit } } : {}),
     })
 
-    // Try cache first
-    const cached = await this.cache.get<T[]>(cacheKey)
-    if (cached !== null) {
-      return new CollectionResult(cached, this.assetManager)
-    }
-
-    try {
-      // Fetch items from the collection - API returns plain array
-      const allItems = await this.fetcher.get<PublicContentItem[]>(
-        `/api/public/${this.projectId}/${this.collectionSlug}?locale=${encodeURIComponent(this.locale)}`
-      )
-
-      let items = allItems as T[]
+    // Fetch items from the collection - API returns plain array.
+    // Errors are not cached; they bubble up
+    const items = await this.load({
+      key: cacheKey,
+      endpoint: this.buildEndpoint(),
+      queryType: 'many',
+      tags: options.tags ?? [],
+      normalize: 'list',
+      select: (allItems: PublicContentItem[]) => {
+        let items = allItems as T[]
 
-      // Apply limit client-side if specified
-      if (limit && limit > 0) {
-        items = items.slice(0, limit)
-      }
+        // Apply limit client-side if specified
+        if (limit && limit > 0) {
+          items = items.slice(0, limit)
+        }
 
-      // Cache the result
-      await this.cache.set(cacheKey, items)
+        return { value: items }
+      },
+    }, options)
 
-      return new CollectionResult(items, this.assetManager)
-    } catch (error) {
-      // Don't cache errors, let them bubble up
-      throw error
-    }
+    return this.toResult(items)
   }
 
   /**
    * Get all items from the collection.
    * Equivalent to many() without a limit.
    */
-  async all(): Promise<CollectionResult<T>> {
-    return this.many()
+  async all(options: ReadOptions = {}): Promise<CollectionResult<T>> {
+    return this.many(options)
   }
 
   /**
    * Get a specific item by its ID.
    * Returns a CollectionResult wrapping the item, or null if the item is not found.
    */
-  async item(itemId: string): Promise<CollectionResult<T>> {
-    const cacheKey = this.cache.generateKey({
-      projectId: this.projectId,
-      collectionSlug: this.collectionSlug,
-      queryType: 'item',
-      itemId,
-      locale: this.locale,
-    })
-
-    // Try cache first
-    const cached = await this.cache.get<T>(cacheKey)
-    if (cached !== null) {
-      return new CollectionResult(cached, this.assetManager)
-    }
+  async item(itemId: string, options: ReadOptions = {}): Promise<CollectionResult<T>> {
+    const cacheKey = this.itemKey(itemId)
 
     try {
       // Fetch specific item - API returns single PublicContentItem
-      const item = await this.fetcher.get<PublicContentItem>(
-        `/api/public/${this.projectId}/${this.collectionSlug}/${itemId}?locale=${encodeURIComponent(this.locale)}`
-      )
-
-      // Cache the result
-      await this.cache.set(cacheKey, item as T)
+      const item = await this.load({
+        key: cacheKey,
+        endpoint: this.buildEndpoint(itemId),
+        queryType: 'item',
+        itemId,
+        tags: options.tags ?? [],
+        select: (item: PublicContentItem) => ({ value: item as T }),
+      }, options)
 
-      return new CollectionResult(item as T, this.assetManager)
+      return this.toResult(item)
     } catch (error) {
-      // Handle 404 errors gracefully for item() method
-      if (error instanceof Error && 'status' in error && error.status === 404) {
-        // Cache null result for missing items to avoid repeated requests
-        await this.cache.set(cacheKey, null as T, 60000) // 1 minute for null results
-        return new CollectionResult(null as T, this.assetManager)
+      // Handle 404 errors gracefully for item() method; cached queries
+      // already stored the null result in refresh()
+      if (error instanceof NotFoundError) {
+        return this.toResult(null as T)
       }
 
       // Re-throw other errors
@@ -184,17 +252,35 @@ export class CollectionQuery<T = PublicContentItem> {
 
 
   /**
-   * Clear cache for this collection and current locale.
+   * Subscribe to fresh data for this collection and locale, delivered when a
+   * background refresh (stale-while-revalidate) finds changed content.
+   * Returns a function that unsubscribes.
+   *
+   * @example
+   * ```typescript
+   * const posts = cms.collection('blog_posts')
+   * const stop = posts.onUpdate(result => render(result))
+   * render(await posts.many())
+   * ```
+   */
+  onUpdate(listener: (result: CollectionResult<T>, event: UpdateEvent<T>) => void): () => void {
+    return this.events.on('update', event => {
+      if (event.collection === this.collectionSlug && event.locale === this.locale) {
+        const update = event as UpdateEvent<T>
+        listener(this.toResult(update.data), update)
+      }
+    })
+  }
+
+  /**
+   * Clear cache for this collection and current locale, including limited
+   * queries and single items.
    * Useful for invalidating cached data when content is known to have changed.
    */
   async clearCache(): Promise<void> {
-    // Generate cache key patterns for this collection and locale
-    const patterns = ['first', 'many', 'all', 'item']
-
-    for (const pattern of patterns) {
-      const baseKey = `vms:${this.projectId}:${this.locale}:${this.collectionSlug}:${pattern}`
-      await this.cache.remove(baseKey)
-    }
+    await this.cache.invalidate(
+      cacheTags(this.projectId, { collection: this.collectionSlug, locale: this.locale })
+    )
   }
 
   /**
@@ -202,10 +288,11 @@ export class CollectionQuery<T = PublicContentItem> {
    * Note: The public API doesn't return collection metadata, so this only returns
    * the collection slug and item count.
    */
-  async getCollectionInfo() {
+  async getCollectionInfo(options: RequestControlOptions = {}) {
     try {
       const items = await this.fetcher.get<PublicContentItem[]>(
-        `/api/public/${this.projectId}/${this.collectionSlug}?locale=${encodeURIComponent(this.locale)}`
+        this.buildEndpoint(),
+        toRequestOptions(options)
       )
 
       return {
@@ -217,4 +304,336 @@ export class CollectionQuery<T = PublicContentItem> {
       throw error
     }
   }
+
+  /**
+   * Load a query result according to the cache strategy.
+   * Expired entries are revalidated with a conditional request when they have
+   * validators; on 304 their TTL restarts and the cached value is reused.
+   */
+  private async load(
+    request: LoadRequest<T>,
+    options: RequestControlOptions
+  ): Promise<CollectionQueryResult<T>> {
+    const { key } = request
+    const { strategy } = this.policy()
+
+    if (strategy === 'network-only') {
+      const data = await this.fetcher.get(request.endpoint, toRequestOptions(options))
+      return request.select(data).value
+    }
+
+    const cached = this.withMaxAge(await this.resolve(
+      request,
+      await this.cache.getEntry<CollectionQueryResult<T> | EntityRefs>(key, { allowStale: true })
+    ))
+
+    if (this.overrides.mode === 'fresh') {
+      this.logger.debug('cache.bypass', `Fetching fresh ${this.collectionSlug}`, { key })
+      return (await this.refresh(request, cached, options)).value
+    }
+
+    if (strategy === 'cache-only') {
+      if (!cached) {
+        throw new VibeCMSError(
+          `VMS SDK: No cached data for ${this.collectionSlug} (cache-only strategy)`,
+          undefined,
+          { key },
+          { code: 'CACHE_MISS' }
+        )
+      }
+      this.logCacheHit(key)
+      return cached.entry.data
+    }
+
+    if (strategy === 'network-first') {
+      try {
+        return (await this.refresh(request, cached, options)).value
+      } catch (error) {
+        // Serve cached data when the network is unavailable, not when the server said no
+        if (cached && error instanceof VibeCMSError && error.retryable) {
+          this.logger.warn('cache.fallback', `Serving cached ${this.collectionSlug} after a failed request`, {
+            key,
+            code: error.code,
+          })
+          return cached.entry.data
+        }
+        throw error
+      }
+    }
+
+    if (cached && !cached.stale) {
+      this.logCacheHit(key)
+      return cached.entry.data
+    }
+
+    if (cached && strategy === 'stale-while-revalidate') {
+      this.logger.debug('cache.stale', `Serving stale ${this.collectionSlug} while revalidating`, { key })
+      this.revalidateInBackground(request, cached)
+      return cached.entry.data
+    }
+
+    this.logCacheMiss(key)
+    return (await this.refresh(request, cached, options)).value
+  }
+
+  /**
+   * Fetch a query and update its cache entry.
+   * An existing entry's validators let the server answer 304 instead of resending.
+   */
+  private async refresh(
+    request: LoadRequest<T>,
+    cached: CacheLookup<CollectionQueryResult<T>> | null,
+    options: RequestControlOptions = {}
+  ): Promise<{ value: CollectionQueryResult<T>; modified: boolean }> {
+    const { key } = request
+    let result: ConditionalResult<unknown>
+    try {
+      result = await this.fetcher.getConditional(request.endpoint, cached?.entry ?? {}, toRequestOptions(options))
+    } catch (error) {
+      if (!(error instanceof NotFoundError) || request.queryType !== 'item') {
+        throw error
+      }
+      // Cache null for missing items to avoid repeated requests, replacing
+      // any copy of an item deleted on the server
+      await this.cache.set(key, null, this.policy().negativeTtl, { tags: this.entryTags(null, request.itemId, request.tags) })
+      return { value: null, modified: true }
+    }
+
+    if (result.notModified && cached) {
+      this.logger.debug('cache.revalidated', `Cached ${this.collectionSlug} is still current`, { key })
+      await this.cache.touch(key)
+      if (request.normalize) {
+        for (const itemId of this.itemIds(cached.entry.data)) {
+          await this.cache.touch(this.itemKey(itemId))
+        }
+      }
+      return { value: cached.entry.data, modified: false }
+    }
+
+    const { value, negative } = request.select(result.data)
+    const policy = this.policy()
+    const ttl = negative ? policy.negativeTtl : policy.ttl
+    const tags = this.entryTags(value, request.itemId, request.tags)
+    await this.cache.set(key, await this.normalize(request, value, ttl, tags), ttl, { ...result, tags })
+    return { value, modified: true }
+  }
+
+  /**
+   * Cache the items of a list result as item entries, so `item()` finds them
+   * and later item fetches show up in the list, and return references to
+   * cache in place of the list. Results with items lacking an ID, or with
+   * more items than the cache limits or its in-memory tier hold at once, are
+   * cached as they are: writing the items would evict earlier ones, leaving
+   * the list unresolvable or resolved from storage on every read.
+   */
+  private async normalize(
+    request: LoadRequest<T>,
+    value: CollectionQueryResult<T>,
+    ttl: number,
+    tags: string[]
+  ): Promise<CollectionQueryResult<T> | EntityRefs> {
+    if (!request.normalize || value === null) {
+      return value
+    }
+
+    const items: unknown[] = Array.isArray(value) ? value : [value]
+    const itemIds = this.itemIds(value)
+    if (itemIds.length !== items.length) {
+      return value
+    }
+
+    const entries = itemIds.map((itemId, index) => {
+      const item = items[index] as T
+      return { key: this.itemKey(itemId), data: item, tags: this.entryTags(item, itemId) }
+    })
+    const refs = { $refs: itemIds }
+    if (!await this.cache.fits([...entries, { key: request.key, data: refs, tags }], ttl)) {
+      return value
+    }
+
+    for (const entry of entries) {
+      await this.cache.set(entry.key, entry.data, ttl, { tags: entry.tags })
+    }
+    return refs
+  }
+
+  /**
+   * Replace item references in a cached list with the cached items. The
+   * list is stale if any of its items is. Returns null when an item is no
+   * longer cached, so the list is fetched again.
+   */
+  private async resolve(
+    request: LoadRequest<T>,
+    cached: CacheLookup<CollectionQueryResult<T> | EntityRefs> | null
+  ): Promise<CacheLookup<CollectionQueryResult<T>> | null> {
+    if (!cached || !isEntityRefs(cached.entry.data)) {
+      return cached as CacheLookup<CollectionQueryResult<T>> | null
+    }
+
+    const items: T[] = []
+    let stale = cached.stale
+    for (const itemId of cached.entry.data.$refs) {
+      const lookup = await this.cache.getEntry<T | null>(this.itemKey(itemId), { allowStale: true, countLookup: false })
+      if (!lookup?.entry.data) {
+        return null
+      }
+      items.push(lookup.entry.data)
+      stale = stale || lookup.stale
+    }
+
+    const data = request.normalize === 'single' ? items[0] ?? null : items
+    return { entry: { ...cached.entry, data }, stale }
+  }
+
+  /**
+   * Cache key of a single item, shared by `item()` and normalized lists.
+   */
+  private itemKey(itemId: string): string {
+    return this.cache.generateKey({
+      projectId: this.projectId,
+      collectionSlug: this.collectionSlug,
+      queryType: 'item',
+      itemId,
+      locale: this.locale,
+    })
+  }
+
+  /**
+   * IDs of the items in a query result.
+   */
+  private itemIds(value: CollectionQueryResult<T>): string[] {
+    const items: unknown[] = Array.isArray(value) ? value : value ? [value] : []
+    return items
+      .map(item => (item as { id?: unknown } | null)?.id)
+      .filter((id): id is string => typeof id === 'string')
+  }
+
+  /**
+   * Cache settings for this query: the collection's policy with this
+   * query's overrides applied.
+   */
+  private policy(): Required<CollectionCachePolicy> {
+    const policy = this.cache.policy(this.collectionSlug)
+    const ttl = this.overrides.ttl ?? policy.ttl
+    const strategy: CacheStrategy = policy.enabled && this.overrides.mode !== 'no-cache'
+      ? policy.strategy
+      : 'network-only'
+
+    return { ...policy, ttl, negativeTtl: Math.min(policy.negativeTtl, ttl), strategy }
+  }
+
+  /**
+   * Mark a cached entry as stale when it is older than this query's TTL override.
+   */
+  private withMaxAge(
+    cached: CacheLookup<CollectionQueryResult<T>> | null
+  ): CacheLookup<CollectionQueryResult<T>> | null {
+    const { ttl } = this.overrides
+    if (!cached || cached.stale || ttl === undefined || Date.now() - cached.entry.timestamp <= ttl) {
+      return cached
+    }
+    return { ...cached, stale: true }
+  }
+
+  /**
+   * Copy this query with more cache overrides.
+   */
+  private withOverrides(overrides: QueryCacheOverrides): CollectionQuery<T> {
+    return new CollectionQuery<T>(
+      this.fetcher,
+      this.cache,
+      this.projectId,
+      this.collectionSlug,
+      this.locale,
+      this.assetManager,
+      {
+        logger: this.logger,
+        preview: this.preview,
+        events: this.events,
+        overrides: { ...this.overrides, ...overrides },
+      }
+    )
+  }
+
+  /**
+   * Tags for a cached query result: its project, collection and locale, the
+   * IDs of the items it contains, and any custom tags.
+   */
+  private entryTags(
+    value: CollectionQueryResult<T>,
+    itemId: string | undefined,
+    tags: string[] = []
+  ): string[] {
+    const itemIds = this.itemIds(value)
+
+    return cacheTags(this.projectId, {
+      collection: this.collectionSlug,
+      locale: this.locale,
+      ...(itemId ? { itemId } : {}),
+      itemIds,
+      tags,
+    })
+  }
+
+  /**
+   * Refresh a stale entry without blocking the caller, and emit an update
+   * event if the content changed. Failures are logged; the stale entry stays.
+   */
+  private revalidateInBackground(
+    request: LoadRequest<T>,
+    cached: CacheLookup<CollectionQueryResult<T>>
+  ): void {
+    this.refresh(request, cached).then(
+      ({ value, modified }) => {
+        if (!modified) {
+          return
+        }
+        this.events.emit('update', {
+          collection: this.collectionSlug,
+          locale: this.locale,
+          queryType: request.queryType,
+          ...(request.itemId !== undefined ? { itemId: request.itemId } : {}),
+          key: request.key,
+          data: value,
+        })
+      },
+      error => {
+        this.logger.warn('cache.revalidate_failed', `Background refresh of ${this.collectionSlug} failed`, {
+          key: request.key,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    )
+  }
+
+  /**
+   * Build the endpoint for this collection, or for one of its items.
+   * Preview queries use the preview API, which includes unpublished content.
+   */
+  private buildEndpoint(itemId?: string): string {
+    const api = this.preview ? 'preview' : 'public'
+    const itemPath = itemId ? `/${itemId}` : ''
+    return `/api/${api}/${this.projectId}/${this.collectionSlug}${itemPath}?locale=${encodeURIComponent(this.locale)}`
+  }
+
+  /**
+   * Wrap query data in a CollectionResult marked with this query's mode.
+   */
+  private toResult(data: CollectionQueryResult<T>): CollectionResult<T> {
+    return new CollectionResult(data, this.assetManager, this.preview ? { preview: true } : {})
+  }
+
+  /**
+   * Log a cache hit for a query.
+   */
+  private logCacheHit(cacheKey: string): void {
+    this.logger.debug('cache.hit', `Cache hit for ${this.collectionSlug}`, { key: cacheKey })
+  }
+
+  /**
+   * Log a cache miss for a query.
+   */
+  private logCacheMiss(cacheKey: string): void {
+    this.logger.debug('cache.miss', `Cache miss for ${this.collectionSlug}`, { key: cacheKey })
+  }
 }
\ No newline at end of file
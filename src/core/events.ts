@@ -0,0 +1,57 @@
+/**
+ * Minimal typed event emitter for VMS SDK events.
+ */
+
+import type { VibeCMSEventListener } from '../types/events.js'
+import type { Logger } from './logger.js'
+
+/**
+ * Event emitter with typed event names and payloads.
+ * A throwing listener never affects other listeners or the emitting code.
+ */
+export class EventEmitter<Events extends object> {
+  private readonly listeners = new Map<keyof Events, Set<VibeCMSEventListener<any>>>()
+
+  constructor(private readonly logger?: Logger) {}
+
+  /**
+   * Subscribe to an event. Returns a function that unsubscribes.
+   */
+  on<K extends keyof Events>(event: K, listener: VibeCMSEventListener<Events[K]>): () => void {
+    let listeners = this.listeners.get(event)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(event, listeners)
+    }
+    listeners.add(listener)
+    return () => this.off(event, listener)
+  }
+
+  /**
+   * Unsubscribe a listener from an event.
+   */
+  off<K extends keyof Events>(event: K, listener: VibeCMSEventListener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener)
+  }
+
+  /**
+   * Call every listener of an event with a payload.
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event)
+    if (!listeners) {
+      return
+    }
+
+    // Copy so listeners may unsubscribe while being called
+    for (const listener of [...listeners]) {
+      try {
+        listener(payload)
+      } catch (error) {
+        this.logger?.error('event.listener_error', `Listener for '${String(event)}' threw`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+  }
+}
@@ -3,7 +3,25 @@
  * Follows the same error handling patterns as frontend/src/composables/useApi.ts
  */
 
-import { VibeCMSError } from '../types/config.js'
+import {
+  VibeCMSError,
+  RequestAbortedError,
+  TimeoutError,
+  NetworkError,
+  ParseError,
+  createHttpError,
+} from '../types/config.js'
+import type {
+  AuthConfig,
+  RetryConfig,
+  RetryAttempt,
+  RequestControlOptions,
+  VibeCMSErrorContext,
+} from '../types/config.js'
+import type { Middleware, MiddlewareRequest } from '../types/middleware.js'
+import type { CacheValidators } from '../types/cache.js'
+import { Logger, redactHeaders } from './logger.js'
+import { createAuthMiddleware } from './auth.js'
 
 /**
  * HTTP methods supported by the fetcher.
@@ -13,31 +31,232 @@ type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH'
 /**
  * Options for making HTTP requests.
  */
-interface RequestOptions extends Omit<RequestInit, 'method'> {
+export interface RequestOptions extends Omit<RequestInit, 'method'> {
   method?: HttpMethod
   timeout?: number
 }
 
+/**
+ * Options for constructing a Fetcher.
+ */
+export interface FetcherOptions {
+  /** Middleware to run around every request, in order */
+  middleware?: Middleware[]
+  /** Retry configuration for GET requests (default: disabled) */
+  retry?: RetryConfig | boolean
+  /** Share one request between identical in-flight GETs (default: true) */
+  dedupe?: boolean
+  /** Logger for request events (default: silent) */
+  logger?: Logger
+  /** Default request timeout in milliseconds (default: 30000) */
+  timeout?: number
+  /** Credentials attached to every request, after all other middleware */
+  auth?: AuthConfig
+  /** Preview token attached to every request alongside the credentials */
+  previewToken?: string
+}
+
+/**
+ * Result of a conditional GET.
+ * On 304 Not Modified, `notModified` is true and `data` is undefined.
+ */
+export interface ConditionalResult<T> extends CacheValidators {
+  /** Whether the server confirmed the cached data is still current */
+  notModified: boolean
+  /** Parsed response body, unless not modified */
+  data: T | undefined
+}
+
+/**
+ * A deduplicated GET shared by every caller that joined it.
+ */
+interface InflightRequest {
+  promise: Promise<unknown>
+  controller: AbortController
+  subscribers: number
+}
+
 /**
  * Default request timeout in milliseconds (30 seconds).
  */
 const DEFAULT_TIMEOUT = 30000
 
+/**
+ * Default retry settings, used when retries are enabled.
+ */
+const DEFAULT_RETRY: Required<RetryConfig> = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  retryOn: [408, 429, 500, 502, 503, 504],
+  retryNetworkErrors: true,
+  respectRetryAfter: true,
+}
+
+/**
+ * Methods that are safe to retry.
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD']
+
+/**
+ * Convert per-call control options into fetcher request options,
+ * leaving out unset values.
+ */
+export function toRequestOptions(control: RequestControlOptions = {}): RequestOptions {
+  const options: RequestOptions = {}
+  if (control.signal) {
+    options.signal = control.signal
+  }
+  if (control.timeout !== undefined) {
+    options.timeout = control.timeout
+  }
+  return options
+}
+
+/**
+ * Resolve a retry option into a full configuration.
+ * `undefined` and `false` disable retries (a single attempt).
+ */
+export function resolveRetryConfig(retry: RetryConfig | boolean | undefined): Required<RetryConfig> {
+  if (!retry) {
+    return { ...DEFAULT_RETRY, maxAttempts: 1 }
+  }
+  if (retry === true) {
+    return { ...DEFAULT_RETRY }
+  }
+  return {
+    maxAttempts: retry.maxAttempts ?? DEFAULT_RETRY.maxAttempts,
+    baseDelay: retry.baseDelay ?? DEFAULT_RETRY.baseDelay,
+    maxDelay: retry.maxDelay ?? DEFAULT_RETRY.maxDelay,
+    retryOn: retry.retryOn ?? DEFAULT_RETRY.retryOn,
+    retryNetworkErrors: retry.retryNetworkErrors ?? DEFAULT_RETRY.retryNetworkErrors,
+    respectRetryAfter: retry.respectRetryAfter ?? DEFAULT_RETRY.respectRetryAfter,
+  }
+}
+
 /**
  * Fetcher class for making HTTP requests to the VMS public API.
  */
 export class Fetcher {
   private readonly baseUrl: string
+  private readonly middleware: Middleware[]
+  private readonly retry: Required<RetryConfig>
+  private readonly dedupe: boolean
+  private readonly logger: Logger
+  private readonly timeout: number
+  private readonly auth: Middleware | null
+  private readonly inflight = new Map<string, InflightRequest>()
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, options: FetcherOptions = {}) {
     this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl
+    this.middleware = [...(options.middleware ?? [])]
+    this.retry = resolveRetryConfig(options.retry)
+    this.dedupe = options.dedupe ?? true
+    this.logger = options.logger ?? new Logger()
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT
+    this.auth = options.auth || options.previewToken
+      ? createAuthMiddleware(options.auth ?? {}, options.previewToken)
+      : null
+  }
+
+  /**
+   * Append a middleware to the end of the pipeline.
+   * Applies to all requests started after this call.
+   */
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware)
+  }
+
+  /**
+   * Make a request through the middleware pipeline and return the raw Response.
+   * No status handling or body parsing is done; used for binary downloads.
+   * GET requests are retried according to the retry configuration, and every
+   * attempt is appended to `attempts` for errors the caller builds.
+   */
+  async raw(endpoint: string, options: RequestOptions = {}, attempts: RetryAttempt[] = []): Promise<Response> {
+    const { method = 'GET', headers = {}, timeout = this.timeout, signal, ...rest } = options
+    const url = this.buildUrl(endpoint)
+
+    try {
+      return await this.send(
+        { url, method, headers: headersToRecord(headers), init: rest },
+        timeout,
+        attempts,
+        signal ?? undefined
+      )
+    } catch (error) {
+      throw this.toRequestError(error, { method, url, timeout, signal, attempts })
+    }
   }
 
   /**
    * Make a GET request.
+   * Identical GETs (same URL and headers) that are in flight at the same time
+   * share a single network request and resolve with the same result.
    */
   async get<T>(endpoint: string, options: Omit<RequestOptions, 'method'> = {}): Promise<T> {
-    return this.makeRequest<T>(endpoint, { ...options, method: 'GET' })
+    const result = await this.getResult<T>(endpoint, options)
+    return result.data as T
+  }
+
+  /**
+   * Make a GET request that revalidates cached data.
+   * Sends If-None-Match / If-Modified-Since from the given validators and
+   * resolves with `notModified: true` on a 304, without a body to parse.
+   * The response's own validators are returned for the next revalidation.
+   */
+  async getConditional<T>(
+    endpoint: string,
+    validators: CacheValidators = {},
+    options: Omit<RequestOptions, 'method'> = {}
+  ): Promise<ConditionalResult<T>> {
+    return this.getResult<T>(endpoint, {
+      ...options,
+      headers: { ...headersToRecord(options.headers ?? {}), ...conditionalHeaders(validators) },
+    })
+  }
+
+  /**
+   * Make a GET request, sharing identical in-flight requests.
+   */
+  private async getResult<T>(
+    endpoint: string,
+    options: Omit<RequestOptions, 'method'> = {}
+  ): Promise<ConditionalResult<T>> {
+    if (!this.dedupe) {
+      return this.request<T>(endpoint, { ...options, method: 'GET' })
+    }
+
+    const { signal, ...rest } = options
+    if (signal?.aborted) {
+      throw new RequestAbortedError(this.buildUrl(endpoint), signal.reason)
+    }
+
+    const key = this.getDedupeKey(endpoint, options.headers, options.timeout)
+    let inflight = this.inflight.get(key)
+
+    if (inflight) {
+      this.logger.debug('request.deduped', 'Joined identical in-flight request', { endpoint })
+    } else {
+      // The shared request gets its own controller; it is only cancelled
+      // once every caller has aborted
+      const controller = new AbortController()
+      const promise = this.request<T>(endpoint, { ...rest, method: 'GET', signal: controller.signal })
+      const entry: InflightRequest = { promise, controller, subscribers: 0 }
+      promise
+        .finally(() => {
+          if (this.inflight.get(key) === entry) {
+            this.inflight.delete(key)
+          }
+        })
+        .catch(() => {
+          // Callers observe the rejection through their own subscription
+        })
+      this.inflight.set(key, entry)
+      inflight = entry
+    }
+
+    return this.subscribe(inflight, key, this.buildUrl(endpoint), signal ?? undefined) as Promise<ConditionalResult<T>>
   }
 
   /**
@@ -78,188 +297,509 @@ export class Fetcher {
   }
 
   /**
-   * Make an HTTP request with comprehensive error handling.
+   * Make an HTTP request and return the parsed body.
    */
   private async makeRequest<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const result = await this.request<T>(endpoint, options)
+    return result.data as T
+  }
+
+  /**
+   * Make an HTTP request with comprehensive error handling.
+   * A 304 Not Modified resolves with `notModified: true` instead of failing.
+   */
+  private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<ConditionalResult<T>> {
     const {
-      timeout = DEFAULT_TIMEOUT,
+      timeout = this.timeout,
       method = 'GET',
       headers = {},
+      signal,
       ...fetchOptions
     } = options
 
-    // Ensure endpoint starts with /
-    const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`
-    const url = `${this.baseUrl}${normalizedEndpoint}`
+    const url = this.buildUrl(endpoint)
+    const startedAt = Date.now()
 
-    // DEBUG: Log request details
-    console.log('🔍 SDK DEBUG: Making request:', {
-      method,
-      url,
-      baseUrl: this.baseUrl,
-      endpoint,
-      normalizedEndpoint,
-      timeout,
-      requestHeaders: headers,
-      fetchOptions: { ...fetchOptions, body: fetchOptions.body ? '[BODY_PRESENT]' : undefined }
-    })
-
-    // Create abort controller for timeout
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), timeout)
+    // Failed attempts, recorded in the final error when retries are enabled
+    const attempts: RetryAttempt[] = []
 
     try {
       // Final headers that will be sent
       const finalHeaders = {
         'Content-Type': 'application/json',
-        ...headers,
+        ...headersToRecord(headers),
+      }
+
+      if (this.logger.isEnabled('debug')) {
+        this.logger.debug('request.start', `${method} ${url}`, {
+          method,
+          url,
+          timeout,
+          headers: redactHeaders(finalHeaders),
+          hasBody: fetchOptions.body !== undefined && fetchOptions.body !== null,
+        })
       }
 
-      console.log('🔍 SDK DEBUG: Final request headers:', finalHeaders)
+      // Make the request with timeout (and retries for idempotent methods)
+      const response = await this.send(
+        { url, method, headers: finalHeaders, init: fetchOptions },
+        timeout,
+        attempts,
+        signal ?? undefined
+      )
 
-      // Make the request with timeout
-      const response = await fetch(url, {
-        ...fetchOptions,
+      this.logger.debug('request.response', `${method} ${url} -> ${response.status}`, {
         method,
-        headers: finalHeaders,
-        signal: controller.signal,
+        url,
+        status: response.status,
+        duration: Date.now() - startedAt,
+        attempts: attempts.length + (response.ok ? 1 : 0),
       })
 
-      clearTimeout(timeoutId)
+      const validators = readValidators(response)
 
-      // Log headers in a TypeScript-friendly way
-      const responseHeaders: Record<string, string> = {}
-      if (response.headers && typeof response.headers.forEach === 'function') {
-        response.headers.forEach((value, key) => {
-          responseHeaders[key] = value
-        })
+      // Cached data is still current; nothing to parse
+      if (response.status === 304) {
+        return { notModified: true, data: undefined, ...validators }
       }
 
-      console.log('🔍 SDK DEBUG: Response received:', {
-        status: response.status,
-        statusText: response.statusText,
-        ok: response.ok,
-        url: response.url,
-        headers: responseHeaders
-      })
-
       // Handle non-ok responses
       if (!response.ok) {
-        await this.handleErrorResponse(response)
+        await this.handleErrorResponse(response, url, attempts)
       }
 
       // Handle 204 No Content responses
       if (response.status === 204) {
-        console.log('🔍 SDK DEBUG: 204 No Content response')
-        return undefined as unknown as T
+        return { notModified: false, data: undefined, ...validators }
       }
 
       // Parse JSON response
       try {
         const result = await response.json()
-        console.log('🔍 SDK DEBUG: Successful response parsed:', {
-          hasData: !!result,
-          keys: result && typeof result === 'object' ? Object.keys(result) : 'not-object'
-        })
-        return result as T
+        return { notModified: false, data: result as T, ...validators }
       } catch (parseError) {
-        console.log('🔍 SDK DEBUG: Failed to parse JSON response:', parseError)
         const responseText = await response.text()
-        console.log('🔍 SDK DEBUG: Raw response text:', responseText)
-        throw new VibeCMSError(
+        this.logger.error('response.parse_error', 'Failed to parse response as JSON', {
+          url,
+          status: response.status,
+          responseLength: responseText.length,
+        })
+        throw new ParseError(
           'Failed to parse response as JSON',
           response.status,
-          { parseError, responseText }
+          { parseError, responseText },
+          withRequestId({ url }, response)
         )
       }
     } catch (error) {
-      clearTimeout(timeoutId)
-      
-      console.log('🔍 SDK DEBUG: Request failed with error:', {
-        errorType: error instanceof Error ? error.constructor.name : typeof error,
-        errorName: error instanceof Error ? error.name : 'unknown',
-        errorMessage: error instanceof Error ? error.message : String(error),
-        url
-      })
+      throw this.toRequestError(error, { method, url, timeout, signal, attempts })
+    }
+  }
 
-      // Handle timeout errors
-      if (error instanceof Error && error.name === 'AbortError') {
-        console.log('🔍 SDK DEBUG: Request timed out after', timeout, 'ms')
-        throw new VibeCMSError(
-          `Request timeout after ${timeout}ms`,
-          408,
-          { timeout, url }
-        )
-      }
+  /**
+   * Join a shared in-flight request. A caller's signal only detaches that
+   * caller; the network request is aborted when the last caller leaves.
+   */
+  private subscribe(inflight: InflightRequest, key: string, url: string, signal?: AbortSignal): Promise<unknown> {
+    if (!signal) {
+      inflight.subscribers++
+      return inflight.promise
+    }
+
+    inflight.subscribers++
 
-      // Re-throw VibeCMSError instances
-      if (error instanceof VibeCMSError) {
-        console.log('🔍 SDK DEBUG: Re-throwing VibeCMSError:', error.message, error.status)
-        throw error
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        inflight.subscribers--
+        if (inflight.subscribers === 0) {
+          if (this.inflight.get(key) === inflight) {
+            this.inflight.delete(key)
+          }
+          inflight.controller.abort()
+        }
+        reject(new RequestAbortedError(url, signal.reason))
       }
 
-      // Handle other network errors
-      console.log('🔍 SDK DEBUG: Throwing network error for unknown error type')
-      throw new VibeCMSError(
-        error instanceof Error ? error.message : 'Network error occurred',
-        0,
-        { originalError: error, url }
+      signal.addEventListener('abort', onAbort, { once: true })
+      inflight.promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort)
+          resolve(value)
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort)
+          reject(error)
+        }
       )
+    })
+  }
+
+  /**
+   * Convert an error thrown while sending a request into a VibeCMSError.
+   * Caller cancellations become RequestAbortedError, our own timeouts a
+   * TimeoutError (408) and failures without a response a NetworkError (0).
+   */
+  private toRequestError(
+    error: unknown,
+    context: {
+      method: string
+      url: string
+      timeout: number
+      signal: AbortSignal | null | undefined
+      attempts: RetryAttempt[]
     }
+  ): VibeCMSError {
+    const { method, url, timeout, signal, attempts } = context
+
+    // Cancelled by the caller
+    if (signal?.aborted) {
+      this.logger.debug('request.aborted', `${method} ${url} was aborted`, { method, url })
+      return new RequestAbortedError(url, signal.reason)
+    }
+
+    // Handle timeout errors
+    if (error instanceof Error && error.name === 'AbortError') {
+      this.logger.warn('request.timeout', `Request timed out after ${timeout}ms`, { method, url, timeout })
+      return new TimeoutError(
+        `Request timeout after ${timeout}ms`,
+        408,
+        this.withAttempts({ timeout, url }, attempts),
+        { url }
+      )
+    }
+
+    // Pass VibeCMSError instances through
+    if (error instanceof VibeCMSError) {
+      return error
+    }
+
+    // Handle other network errors
+    this.logger.error('request.network_error', errorMessage(error), { method, url })
+    return new NetworkError(
+      error instanceof Error ? error.message : 'Network error occurred',
+      0,
+      this.withAttempts({ originalError: error, url }, attempts),
+      { url }
+    )
   }
 
   /**
-   * Handle error responses following the same pattern as useApi.ts.
+   * Build the key identifying identical GET requests: URL, timeout and sorted
+   * headers. Callers with different timeouts don't share a request, so none
+   * is held to another caller's timeout.
    */
-  private async handleErrorResponse(response: Response): Promise<never> {
-    console.log('🔍 SDK DEBUG: Handling error response:', {
-      status: response.status,
-      statusText: response.statusText,
-      url: response.url
-    })
+  private getDedupeKey(endpoint: string, headers: HeadersInit = {}, timeout = this.timeout): string {
+    const record = headersToRecord(headers)
+    const headerPart = Object.keys(record)
+      .map(name => [name.toLowerCase(), record[name]] as const)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, value]) => `${name}:${value}`)
+      .join('\n')
+    return `${this.buildUrl(endpoint)}\n${timeout}\n${headerPart}`
+  }
+
+  /**
+   * Build a full URL from an endpoint, ensuring it starts with /.
+   */
+  private buildUrl(endpoint: string): string {
+    const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`
+    return `${this.baseUrl}${normalizedEndpoint}`
+  }
+
+  /**
+   * Send a request with a per-attempt timeout, retrying idempotent requests
+   * on retryable statuses and network errors. Each attempt runs the full
+   * middleware chain. Failed attempts are appended to `attempts`.
+   */
+  private async send(
+    request: MiddlewareRequest,
+    timeout?: number,
+    attempts: RetryAttempt[] = [],
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const retry = this.retry
+    const maxAttempts = IDEMPOTENT_METHODS.includes(request.method.toUpperCase())
+      ? Math.max(1, retry.maxAttempts)
+      : 1
+
+    for (let attempt = 1; ; attempt++) {
+      const isLastAttempt = attempt >= maxAttempts
+      const controller = new AbortController()
+      const timeoutId = timeout !== undefined
+        ? setTimeout(() => controller.abort(), timeout)
+        : undefined
+
+      // Forward cancellation from the caller's signal to this attempt
+      const onAbort = () => controller.abort(signal?.reason)
+      if (signal?.aborted) {
+        controller.abort(signal.reason)
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true })
+      }
+
+      let delay: number | null
+      try {
+        const response = await this.dispatch({
+          ...request,
+          headers: { ...request.headers },
+          init: { ...request.init, signal: controller.signal },
+        })
+
+        if (response.ok || isLastAttempt || !this.isRetryableStatus(response.status, attempt)) {
+          if (!response.ok) {
+            attempts.push({ attempt, status: response.status })
+          }
+          return response
+        }
+
+        delay = this.getRetryDelay(attempt, response)
+        if (delay === null) {
+          // Server asked us to wait longer than we are willing to
+          attempts.push({ attempt, status: response.status })
+          return response
+        }
+        attempts.push({ attempt, status: response.status, delay })
+      } catch (error) {
+        if (isLastAttempt || !retry.retryNetworkErrors || signal?.aborted) {
+          attempts.push({ attempt, error: errorMessage(error) })
+          throw error
+        }
+        delay = this.getRetryDelay(attempt) ?? 0
+        attempts.push({ attempt, error: errorMessage(error), delay })
+      } finally {
+        clearTimeout(timeoutId)
+        signal?.removeEventListener('abort', onAbort)
+      }
+
+      this.logger.info('request.retry', `Retrying ${request.method} ${request.url} in ${delay}ms`, {
+        url: request.url,
+        attempt,
+        delay,
+      })
 
+      await sleep(delay, signal)
+    }
+  }
+
+  /**
+   * Check whether a response status should be retried.
+   */
+  private isRetryableStatus(status: number, attempt: number): boolean {
+    const { retryOn } = this.retry
+    return typeof retryOn === 'function' ? retryOn(status, attempt) : retryOn.includes(status)
+  }
+
+  /**
+   * Compute the delay before the next attempt using jittered exponential backoff.
+   * A Retry-After header takes precedence; returns null if it exceeds maxDelay.
+   */
+  private getRetryDelay(attempt: number, response?: Response): number | null {
+    const { baseDelay, maxDelay, respectRetryAfter } = this.retry
+
+    if (response && respectRetryAfter) {
+      const retryAfter = parseRetryAfter(response.headers?.get?.('retry-after') ?? null)
+      if (retryAfter !== null) {
+        return retryAfter <= maxDelay ? retryAfter : null
+      }
+    }
+
+    // Equal jitter: half the exponential delay plus a random share of the other half
+    const exponential = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1))
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2))
+  }
+
+  /**
+   * Add the attempt history to error details when retries are enabled.
+   */
+  withAttempts(details: Record<string, unknown>, attempts: RetryAttempt[]): Record<string, unknown> {
+    return this.retry.maxAttempts > 1 ? { ...details, attempts } : details
+  }
+
+  /**
+   * Run a request through the middleware chain, ending with the native fetch.
+   * Credentials are attached last, so other middleware never see them.
+   */
+  private dispatch(request: MiddlewareRequest): Promise<Response> {
+    // Snapshot the chain so middleware added mid-request don't affect it
+    const chain = this.auth ? [...this.middleware, this.auth] : [...this.middleware]
+
+    const run = (index: number, current: MiddlewareRequest): Promise<Response> => {
+      const middleware = chain[index]
+      if (!middleware) {
+        return fetch(current.url, {
+          ...current.init,
+          method: current.method,
+          headers: current.headers,
+        })
+      }
+      return middleware(current, next => run(index + 1, next))
+    }
+
+    return run(0, request)
+  }
+
+  /**
+   * Handle error responses following the same pattern as useApi.ts.
+   * Throws the error subclass matching the status.
+   */
+  private async handleErrorResponse(
+    response: Response,
+    url: string,
+    attempts: RetryAttempt[] = []
+  ): Promise<never> {
     let errorMessage = `HTTP ${response.status}: ${response.statusText}`
     let errorDetails: unknown = null
 
     try {
       const errorData = await response.json()
       errorDetails = errorData
-      console.log('🔍 SDK DEBUG: Error response JSON:', errorData)
 
       // Handle structured error responses from backend
       // Following the same pattern as frontend/src/composables/useApi.ts
       if (errorData.message && typeof errorData.message === 'string') {
         errorMessage = errorData.message
-        console.log('🔍 SDK DEBUG: Using errorData.message:', errorMessage)
       } else if (typeof errorData.detail === 'string') {
         // FastAPI default detail field (string)
         errorMessage = errorData.detail
-        console.log('🔍 SDK DEBUG: Using errorData.detail (string):', errorMessage)
       } else if (typeof errorData.error === 'string') {
         // Generic error field (string)
         errorMessage = errorData.error
-        console.log('🔍 SDK DEBUG: Using errorData.error:', errorMessage)
       } else if (typeof errorData.detail === 'object' && errorData.detail?.message) {
         // Handle nested detail object with message
         errorMessage = errorData.detail.message
-        console.log('🔍 SDK DEBUG: Using errorData.detail.message:', errorMessage)
       }
-    } catch (jsonError) {
-      console.log('🔍 SDK DEBUG: Failed to parse error response as JSON:', jsonError)
+    } catch {
       // If response body isn't JSON, use status text
       try {
         const textResponse = await response.text()
-        console.log('🔍 SDK DEBUG: Error response text:', textResponse)
         if (textResponse) {
           errorDetails = { responseText: textResponse }
         }
-      } catch (textError) {
-        console.log('🔍 SDK DEBUG: Failed to read error response as text:', textError)
+      } catch {
         // Ignore text parsing errors
       }
     }
 
-    console.log('🔍 SDK DEBUG: Throwing VibeCMSError:', { errorMessage, status: response.status, errorDetails })
-    throw new VibeCMSError(errorMessage, response.status, errorDetails)
+    if (this.retry.maxAttempts > 1) {
+      const base = errorDetails && typeof errorDetails === 'object' ? errorDetails : {}
+      errorDetails = { ...base, attempts }
+    }
+
+    const retryAfter = parseRetryAfter(response.headers?.get?.('retry-after') ?? null)
+    const context = withRequestId({ url }, response)
+
+    this.logger.warn('response.error', errorMessage, {
+      status: response.status,
+      url,
+      ...(context.requestId !== undefined ? { requestId: context.requestId } : {}),
+    })
+    throw createHttpError(response.status, errorMessage, errorDetails, {
+      ...context,
+      ...(retryAfter !== null ? { retryAfter } : {}),
+    })
+  }
+}
+
+/**
+ * Build conditional request headers from cache validators.
+ */
+export function conditionalHeaders(validators: CacheValidators): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (validators.etag) {
+    headers['If-None-Match'] = validators.etag
+  }
+  if (validators.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified
+  }
+  return headers
+}
+
+/**
+ * Read the ETag and Last-Modified validators of a response.
+ */
+export function readValidators(response: Response): CacheValidators {
+  const etag = response.headers?.get?.('etag')
+  const lastModified = response.headers?.get?.('last-modified')
+  return {
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+  }
+}
+
+/**
+ * Add the server-assigned request ID of a response to an error context.
+ */
+export function withRequestId(context: VibeCMSErrorContext, response: Response): VibeCMSErrorContext {
+  const requestId = response.headers?.get?.('x-request-id')
+  return requestId ? { ...context, requestId } : context
+}
+
+/**
+ * Convert any HeadersInit shape into a plain header object.
+ */
+function headersToRecord(headers: HeadersInit): Record<string, string> {
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    const record: Record<string, string> = {}
+    headers.forEach((value, key) => {
+      record[key] = value
+    })
+    return record
+  }
+  if (Array.isArray(headers)) {
+    return Object.fromEntries(headers)
+  }
+  return { ...(headers as Record<string, string>) }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null
   }
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+  return null
+}
+
+/**
+ * Wait for a delay; rejects with an AbortError if the signal fires first.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => {
+      const error = new Error('The operation was aborted')
+      error.name = 'AbortError'
+      return error
+    }
+
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(abortError())
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Extract a readable message from an unknown thrown value.
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
 }
\ No newline at end of file
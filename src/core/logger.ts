@@ -0,0 +1,124 @@
+/**
+ * Structured, level-based logger for VMS SDK.
+ * Silent by default; events go to a user handler or the console.
+ */
+
+import type { LogEvent, LogLevel, LoggerConfig } from '../types/config.js'
+
+/**
+ * Numeric order of log levels, used for threshold checks.
+ */
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  silent: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4,
+}
+
+/**
+ * Header names whose values must never be logged.
+ */
+const SENSITIVE_HEADER_PATTERN = /authorization|cookie|token|api[-_]?key|secret|password/i
+
+/**
+ * Placeholder written instead of sensitive values.
+ */
+const REDACTED = '[REDACTED]'
+
+/**
+ * Logger class emitting structured events at or above a configured level.
+ */
+export class Logger {
+  private readonly level: LogLevel
+  private readonly handler: (event: LogEvent) => void
+
+  constructor(config: LoggerConfig = {}) {
+    this.level = config.level ?? 'silent'
+    this.handler = config.handler ?? writeToConsole
+  }
+
+  /**
+   * Check whether events of a level would be emitted.
+   * Use to skip building expensive log data.
+   */
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LEVEL_ORDER[level] <= LEVEL_ORDER[this.level]
+  }
+
+  error(event: string, message: string, data?: Record<string, unknown>): void {
+    this.log('error', event, message, data)
+  }
+
+  warn(event: string, message: string, data?: Record<string, unknown>): void {
+    this.log('warn', event, message, data)
+  }
+
+  info(event: string, message: string, data?: Record<string, unknown>): void {
+    this.log('info', event, message, data)
+  }
+
+  debug(event: string, message: string, data?: Record<string, unknown>): void {
+    this.log('debug', event, message, data)
+  }
+
+  /**
+   * Emit an event if its level is enabled.
+   * A throwing handler never breaks the request that logged.
+   */
+  private log(
+    level: Exclude<LogLevel, 'silent'>,
+    event: string,
+    message: string,
+    data?: Record<string, unknown>
+  ): void {
+    if (!this.isEnabled(level)) {
+      return
+    }
+
+    try {
+      this.handler({
+        level,
+        event,
+        message,
+        timestamp: Date.now(),
+        ...(data !== undefined ? { data } : {}),
+      })
+    } catch {
+      // Ignore handler errors
+    }
+  }
+}
+
+/**
+ * Return a copy of the headers with authorization-like values redacted.
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    redacted[name] = SENSITIVE_HEADER_PATTERN.test(name) ? REDACTED : value
+  }
+  return redacted
+}
+
+/**
+ * Default handler writing events to the matching console method.
+ */
+function writeToConsole(event: LogEvent): void {
+  const line = `VMS SDK [${event.event}]: ${event.message}`
+  const args = event.data !== undefined ? [line, event.data] : [line]
+
+  switch (event.level) {
+    case 'error':
+      console.error(...args)
+      break
+    case 'warn':
+      console.warn(...args)
+      break
+    case 'info':
+      console.info(...args)
+      break
+    default:
+      console.debug(...args)
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Content manifest checks for VMS SDK.
+ * Polls the project's content version and invalidates cached collections
+ * whose content changed, so published edits show up before their TTL ends.
+ */
+
+import type { ContentManifest } from '../types/api.js'
+import type { ManifestConfig, RequestControlOptions } from '../types/config.js'
+import type { VersionEvent } from '../types/events.js'
+import type { BrowserCache } from './cache.js'
+import { cacheTags } from './cache.js'
+import { toRequestOptions } from './fetcher.js'
+import type { Fetcher } from './fetcher.js'
+import { Logger } from './logger.js'
+
+/**
+ * Default manifest check settings.
+ */
+const DEFAULT_MANIFEST: Required<ManifestConfig> = {
+  interval: 60000,
+  onFocus: true,
+}
+
+/**
+ * Focus and visibility changes within this many milliseconds of the last
+ * check don't trigger another one.
+ */
+const FOCUS_THROTTLE = 5000
+
+/**
+ * The last seen manifest is kept until a newer one replaces it.
+ */
+const BASELINE_TTL = Number.MAX_SAFE_INTEGER
+
+/**
+ * Resolve a manifest option into a full configuration.
+ * `undefined` and `false` disable manifest checks.
+ */
+export function resolveManifestConfig(manifest: ManifestConfig | boolean | undefined): Required<ManifestConfig> | undefined {
+  if (!manifest) {
+    return undefined
+  }
+  if (manifest === true) {
+    return { ...DEFAULT_MANIFEST }
+  }
+  return {
+    interval: manifest.interval ?? DEFAULT_MANIFEST.interval,
+    onFocus: manifest.onFocus ?? DEFAULT_MANIFEST.onFocus,
+  }
+}
+
+/**
+ * Slugs of the collections whose version differs between two manifests,
+ * or null when either manifest doesn't list its collections.
+ */
+function changedCollections(previous: ContentManifest, next: ContentManifest): string[] | null {
+  if (!previous.collections || !next.collections) {
+    return null
+  }
+
+  const slugs = new Set([...Object.keys(previous.collections), ...Object.keys(next.collections)])
+  return [...slugs].filter(slug => previous.collections?.[slug] !== next.collections?.[slug])
+}
+
+/**
+ * Options for constructing a ManifestWatcher.
+ */
+export interface ManifestWatcherOptions {
+  /** Logger for failed checks */
+  logger?: Logger
+  /** Called after a new version invalidated the cache */
+  onChange?: (event: VersionEvent) => void
+}
+
+/**
+ * Checks a project's content manifest and invalidates the collections that
+ * changed since the last check. The last seen manifest is kept in the cache,
+ * so the first check after a reload compares against the content cached
+ * before it, and tabs sharing a storage don't invalidate the same change
+ * twice.
+ */
+export class ManifestWatcher {
+  private readonly fetcher: Fetcher
+  private readonly cache: BrowserCache
+  private readonly projectId: string
+  private readonly logger: Logger
+  private readonly onChange: ((event: VersionEvent) => void) | undefined
+  private manifest: ContentManifest | null = null
+  private checking: Promise<VersionEvent | null> | null = null
+  private lastCheck = 0
+  private timer: ReturnType<typeof setInterval> | null = null
+  private focusListener: (() => void) | null = null
+
+  constructor(fetcher: Fetcher, cache: BrowserCache, projectId: string, options: ManifestWatcherOptions = {}) {
+    this.fetcher = fetcher
+    this.cache = cache
+    this.projectId = projectId
+    this.logger = options.logger ?? new Logger()
+    this.onChange = options.onChange
+  }
+
+  /**
+   * Check now, then on every interval and when the page regains focus.
+   */
+  start(config: Required<ManifestConfig>): void {
+    this.stop()
+    void this.poll()
+
+    if (config.interval > 0) {
+      this.timer = setInterval(() => void this.poll(), config.interval)
+      // Don't keep Node processes (build scripts, SSR) alive just to poll
+      if (typeof this.timer === 'object' && 'unref' in this.timer) {
+        this.timer.unref()
+      }
+    }
+
+    if (config.onFocus && typeof window !== 'undefined' && window.addEventListener) {
+      this.focusListener = () => {
+        if (document.visibilityState !== 'hidden' && Date.now() - this.lastCheck >= FOCUS_THROTTLE) {
+          void this.poll()
+        }
+      }
+      window.addEventListener('focus', this.focusListener)
+      document.addEventListener('visibilitychange', this.focusListener)
+    }
+  }
+
+  /**
+   * Stop polling and listening for focus. Manual checks keep working.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+
+    if (this.focusListener) {
+      window.removeEventListener('focus', this.focusListener)
+      document.removeEventListener('visibilitychange', this.focusListener)
+      this.focusListener = null
+    }
+  }
+
+  /**
+   * Fetch the manifest and invalidate the collections whose version changed.
+   * Returns the change, or null when the version is unchanged or this is the
+   * first manifest seen. Concurrent calls share one request.
+   */
+  check(options: RequestControlOptions = {}): Promise<VersionEvent | null> {
+    if (!this.checking) {
+      this.checking = this.compare(options).finally(() => {
+        this.checking = null
+      })
+    }
+    return this.checking
+  }
+
+  /**
+   * Check in the background; failures are logged and retried on the next poll.
+   */
+  private async poll(): Promise<void> {
+    try {
+      await this.check()
+    } catch (error) {
+      this.logger.warn('manifest.failed', 'Content manifest check failed', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  private async compare(options: RequestControlOptions): Promise<VersionEvent | null> {
+    this.lastCheck = Date.now()
+    const manifest = await this.fetcher.get<ContentManifest>(
+      `/api/manifest/${this.projectId}`,
+      toRequestOptions(options)
+    )
+    const previous = await this.cache.get<ContentManifest>(this.baselineKey()) ?? this.manifest
+
+    let event: VersionEvent | null = null
+    if (previous && previous.version !== manifest.version) {
+      const collections = changedCollections(previous, manifest)
+      if (collections) {
+        for (const collection of collections) {
+          await this.cache.invalidate(cacheTags(this.projectId, { collection }))
+        }
+      } else {
+        await this.cache.invalidate(cacheTags(this.projectId))
+      }
+
+      event = { version: manifest.version, previousVersion: previous.version, collections }
+      this.logger.info('manifest.changed', `Content version changed to ${manifest.version}`, {
+        previousVersion: previous.version,
+        collections,
+      })
+    }
+
+    // Stored after invalidating, so an interrupted invalidation is retried
+    this.manifest = manifest
+    await this.cache.set(this.baselineKey(), manifest, BASELINE_TTL, { tags: cacheTags(this.projectId) })
+
+    if (event) {
+      this.onChange?.(event)
+    }
+    return event
+  }
+
+  /**
+   * Cache key of the last seen manifest.
+   */
+  private baselineKey(): string {
+    return `${this.cache.namespace}:${this.projectId}:manifest`
+  }
+}
@@ -11,6 +11,14 @@ import type { AssetManager } from './asset.js'
  */
 export type CollectionQueryResult<T = PublicContentItem> = T | T[] | null
 
+/**
+ * Information about where a result came from.
+ */
+export interface CollectionResultMeta {
+  /** Whether the result contains unpublished preview content */
+  preview?: boolean
+}
+
 /**
  * Enhanced collection result wrapper that provides field extraction and asset handling.
  * Maintains backward compatibility while adding powerful new functionality.
@@ -18,10 +26,12 @@ export type CollectionQueryResult<T = PublicContentItem> = T | T[] | null
 export class CollectionResult<T = PublicContentItem> {
   private readonly data: CollectionQueryResult<T>
   private readonly assetManager: AssetManager
+  private readonly meta: CollectionResultMeta
 
-  constructor(data: CollectionQueryResult<T>, assetManager: AssetManager) {
+  constructor(data: CollectionQueryResult<T>, assetManager: AssetManager, meta: CollectionResultMeta = {}) {
     this.data = data
     this.assetManager = assetManager
+    this.meta = meta
   }
 
   /**
@@ -32,6 +42,13 @@ export class CollectionResult<T = PublicContentItem> {
     return this.data
   }
 
+  /**
+   * Check if the result contains unpublished preview content.
+   */
+  get isPreview(): boolean {
+    return this.meta.preview ?? false
+  }
+
   /**
    * Check if the result is empty/null.
    */
@@ -204,7 +221,7 @@ export class CollectionResult<T = PublicContentItem> {
    */
   filter(fn: (item: T, index: number) => boolean): CollectionResult<T> {
     const filtered = this.toArray().filter(fn)
-    return new CollectionResult(filtered, this.assetManager)
+    return new CollectionResult(filtered, this.assetManager, this.meta)
   }
 
   /**
@@ -0,0 +1,293 @@
+/**
+ * Asynchronous storage adapters for VMS SDK caching.
+ * IndexedDB for browsers and the filesystem for Node build scripts.
+ */
+
+import type { AsyncStorageAdapter } from '../types/cache.js'
+
+/**
+ * Matches keys of any cache namespace (`vms@{format}[.{cacheVersion}]`),
+ * including the unversioned `vms:` keys of older SDK versions.
+ */
+const CACHE_KEY_PATTERN = /^vms(@[^:]*)?:/
+
+/**
+ * Extension of cache files written by FileSystemStorageAdapter.
+ */
+const FILE_EXTENSION = '.json'
+
+/**
+ * Check whether a storage key belongs to the SDK cache, in any namespace.
+ * Adapters should only clear these keys.
+ */
+export function isCacheKey(key: string): boolean {
+  return CACHE_KEY_PATTERN.test(key)
+}
+
+/**
+ * Check whether a storage error means the storage is full.
+ * Covers DOM quota errors across browsers and ENOSPC from the filesystem.
+ */
+export function isQuotaError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false
+  }
+
+  const { name, code } = error as { name?: unknown; code?: unknown }
+  return name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014 ||
+    code === 'ENOSPC'
+}
+
+/**
+ * Options for IndexedDBStorageAdapter.
+ */
+export interface IndexedDBStorageOptions {
+  /** Database name (default: 'vibe-cms') */
+  databaseName?: string
+  /** Object store name (default: 'cache') */
+  storeName?: string
+  /** IndexedDB factory to use (default: the global indexedDB) */
+  indexedDB?: IDBFactory
+}
+
+/**
+ * A lazily opened IndexedDB object store.
+ * Shared by the IndexedDB storage adapter and the binary asset store.
+ */
+export class IndexedDBStore {
+  private readonly databaseName: string
+  private readonly storeName: string
+  private readonly factory: IDBFactory | undefined
+  private database: Promise<IDBDatabase> | null = null
+
+  constructor(databaseName: string, storeName: string, factory?: IDBFactory) {
+    this.databaseName = databaseName
+    this.storeName = storeName
+    this.factory = factory ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined)
+  }
+
+  /**
+   * Run a single request against the object store.
+   */
+  async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open()
+
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(database.transaction(this.storeName, mode).objectStore(this.storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  /**
+   * Get all string keys in the object store.
+   */
+  async keys(): Promise<string[]> {
+    const keys = await this.request('readonly', store => store.getAllKeys())
+    return keys.filter((key): key is string => typeof key === 'string')
+  }
+
+  /**
+   * Open the database once, creating the object store on first use.
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const opening = new Promise<IDBDatabase>((resolve, reject) => {
+        if (!this.factory) {
+          reject(new Error('IndexedDB is not available'))
+          return
+        }
+
+        const request = this.factory.open(this.databaseName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+
+      this.database = opening
+      // Don't keep a failed open around; the next operation tries again
+      opening.catch(() => {
+        if (this.database === opening) {
+          this.database = null
+        }
+      })
+    }
+    return this.database
+  }
+}
+
+/**
+ * Storage adapter backed by IndexedDB.
+ * Suited to large caches that would exceed localStorage quotas.
+ */
+export class IndexedDBStorageAdapter implements AsyncStorageAdapter {
+  private readonly store: IndexedDBStore
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    this.store = new IndexedDBStore(
+      options.databaseName ?? 'vibe-cms',
+      options.storeName ?? 'cache',
+      options.indexedDB
+    )
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    try {
+      const value = await this.store.request('readonly', store => store.get(key))
+      return typeof value === 'string' ? value : null
+    } catch {
+      return null
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    // Failures are left to the cache, which evicts and retries on quota
+    // errors and logs the others
+    await this.store.request('readwrite', store => store.put(value, key))
+  }
+
+  async removeItem(key: string): Promise<void> {
+    try {
+      await this.store.request('readwrite', store => store.delete(key))
+    } catch {
+      // Ignore removal errors
+    }
+  }
+
+  async clear(): Promise<void> {
+    // Only clear VMS-related keys in case the store is shared
+    const keysToRemove = (await this.keys()).filter(isCacheKey)
+    for (const key of keysToRemove) {
+      await this.removeItem(key)
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      return await this.store.keys()
+    } catch {
+      return []
+    }
+  }
+}
+
+/**
+ * The subset of Node's `fs/promises` used by FileSystemStorageAdapter.
+ */
+export interface FileSystemLike {
+  readFile(path: string, encoding: 'utf8'): Promise<string>
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>
+  unlink(path: string): Promise<void>
+  readdir(path: string): Promise<string[]>
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>
+}
+
+/**
+ * Options for FileSystemStorageAdapter.
+ */
+export interface FileSystemStorageOptions {
+  /** Directory holding the cache files; created on first write */
+  directory: string
+  /** Filesystem implementation, usually `fs/promises` */
+  fs: FileSystemLike
+}
+
+/**
+ * Storage adapter keeping one file per cache entry.
+ * Meant for Node build scripts (e.g. static site generation) that should
+ * reuse content between runs. The filesystem is passed in so the SDK
+ * itself stays free of Node imports.
+ *
+ * @example
+ * ```typescript
+ * import fs from 'node:fs/promises'
+ *
+ * const cms = createVibeCMS({
+ *   projectId: 'your-project-id',
+ *   cache: { storage: new FileSystemStorageAdapter({ directory: '.cache/vms', fs }) }
+ * })
+ * ```
+ */
+export class FileSystemStorageAdapter implements AsyncStorageAdapter {
+  private readonly directory: string
+  private readonly fs: FileSystemLike
+  private ready: Promise<unknown> | null = null
+
+  constructor(options: FileSystemStorageOptions) {
+    this.directory = options.directory.replace(/[\\/]+$/, '')
+    this.fs = options.fs
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    try {
+      return await this.fs.readFile(this.pathFor(key), 'utf8')
+    } catch {
+      return null
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    try {
+      if (!this.ready) {
+        this.ready = this.fs.mkdir(this.directory, { recursive: true })
+      }
+      await this.ready
+      await this.fs.writeFile(this.pathFor(key), value, 'utf8')
+    } catch (error) {
+      // Create the directory again on the next write; the cache logs the failure
+      this.ready = null
+      throw error
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    try {
+      await this.fs.unlink(this.pathFor(key))
+    } catch {
+      // Ignore removal errors, e.g. the file is already gone
+    }
+  }
+
+  async clear(): Promise<void> {
+    const keysToRemove = (await this.keys()).filter(isCacheKey)
+    for (const key of keysToRemove) {
+      await this.removeItem(key)
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      const files = await this.fs.readdir(this.directory)
+      const keys: string[] = []
+      for (const file of files) {
+        if (file.endsWith(FILE_EXTENSION)) {
+          try {
+            keys.push(decodeURIComponent(file.slice(0, -FILE_EXTENSION.length)))
+          } catch {
+            // Not one of ours
+          }
+        }
+      }
+      return keys
+    } catch {
+      // The directory doesn't exist until the first write
+      return []
+    }
+  }
+
+  /**
+   * File path for a key. Keys are URI-encoded so they are valid file names
+   * on every platform.
+   */
+  private pathFor(key: string): string {
+    return `${this.directory}/${encodeURIComponent(key)}${FILE_EXTENSION}`
+  }
+}
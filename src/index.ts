@@ -24,7 +24,10 @@
 
 // Core classes
 import { VibeCMSClient } from './core/client.js'
-import { BrowserCache } from './core/cache.js'
+import { BrowserCache, MemoryStorageAdapter, parseCacheKey } from './core/cache.js'
+import { IndexedDBStorageAdapter, FileSystemStorageAdapter, isCacheKey } from './core/storage.js'
+import { CacheStorageAssetStore, IndexedDBAssetStore } from './core/asset-cache.js'
+import { createAesGcmCodec, createLzCodec } from './core/codecs.js'
 import { CollectionQuery } from './core/collection.js'
 import { CollectionResult } from './core/result.js'
 import { Fetcher } from './core/fetcher.js'
@@ -34,7 +37,24 @@ import { AssetManager } from './core/asset.js'
 export * from './types/index.js'
 
 // Core class exports (for advanced usage)
-export { VibeCMSClient, BrowserCache, CollectionQuery, CollectionResult, Fetcher, AssetManager }
+export {
+  VibeCMSClient,
+  BrowserCache,
+  MemoryStorageAdapter,
+  parseCacheKey,
+  isCacheKey,
+  IndexedDBStorageAdapter,
+  FileSystemStorageAdapter,
+  CacheStorageAssetStore,
+  IndexedDBAssetStore,
+  createLzCodec,
+  createAesGcmCodec,
+  CollectionQuery,
+  CollectionResult,
+  Fetcher,
+  AssetManager,
+}
+export type { IndexedDBStorageOptions, FileSystemLike, FileSystemStorageOptions } from './core/storage.js'
 
 // Main factory function
 export { createVibeCMS } from './factory.js'
@@ -3,11 +3,14 @@
  * These types match the actual API structure from /openapi.json
  */
 
+import type { RequestControlOptions } from './config.js'
+
 /**
  * Public content item model - returns only essential data for consumers.
  *
  * The API returns a simplified structure focused on the actual content:
- * - No status field (all public API items are implicitly published)
+ * - No status field (public API items are implicitly published; preview API
+ *   items may be drafts, see `CollectionResult.isPreview`)
  * - No timestamps (not needed for content consumption)
  * - No metadata wrapper (metadata is in the data object if needed)
  */
@@ -55,7 +58,7 @@ export interface AssetUrlOptions {
 /**
  * Options for downloading assets with additional parameters.
  */
-export interface DownloadAssetOptions extends AssetUrlOptions {
+export interface DownloadAssetOptions extends AssetUrlOptions, RequestControlOptions {
   /** Whether to use cache for the download (default: true) */
   useCache?: boolean
   /** Custom cache TTL for this asset (default: uses client cache TTL) */
@@ -76,4 +79,15 @@ export interface AssetData {
   fileName?: string | undefined
   /** Asset ID */
   assetId: string
-}
\ No newline at end of file
+}
+
+/**
+ * Content version manifest of a project, from `/api/manifest/{projectId}`.
+ * The version changes whenever content is published.
+ */
+export interface ContentManifest {
+  /** Version of the project's published content */
+  version: string
+  /** Version of each collection's content, keyed by slug; without it, a new version invalidates every collection */
+  collections?: Record<string, string>
+}
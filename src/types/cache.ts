@@ -12,6 +12,187 @@ export interface CacheEntry<T = any> {
   timestamp: number
   /** Optional TTL override for this specific entry */
   ttl?: number
+  /** ETag of the response the data came from, for revalidation */
+  etag?: string
+  /** Last-Modified of the response the data came from, for revalidation */
+  lastModified?: string
+  /** Tags for invalidation, e.g. `collection:blog-posts` */
+  tags?: string[]
+}
+
+/**
+ * HTTP validators used to revalidate cached data with a conditional request.
+ */
+export interface CacheValidators {
+  /** Sent back as If-None-Match */
+  etag?: string
+  /** Sent back as If-Modified-Since */
+  lastModified?: string
+}
+
+/**
+ * Options for storing a cache entry.
+ */
+export interface CacheSetOptions extends CacheValidators {
+  /** Tags for invalidation */
+  tags?: string[]
+}
+
+/**
+ * Which cached content to invalidate. Every given field must match;
+ * omitted fields match anything.
+ */
+export interface InvalidateOptions {
+  /** Collection slug */
+  collection?: string
+  /** Item ID; also matches lists containing the item */
+  itemId?: string
+  /** Locale (default: all locales) */
+  locale?: string
+  /** Custom tag given with a query's `tags` option */
+  tag?: string
+}
+
+/**
+ * Options for reading a cache entry.
+ */
+export interface CacheGetOptions {
+  /** Return expired entries instead of removing them, so they can be revalidated */
+  allowStale?: boolean
+  /** Count the lookup as a hit or miss (default: true) */
+  countLookup?: boolean
+}
+
+/**
+ * A cache entry together with its freshness.
+ */
+export interface CacheLookup<T = any> {
+  /** The stored entry */
+  entry: CacheEntry<T>
+  /** Whether the entry's TTL has passed */
+  stale: boolean
+}
+
+/**
+ * Usage of a cache's storage.
+ */
+export interface CacheUsage {
+  /** Number of VMS entries in storage, not counting assets in a binary tier */
+  entries: number
+  /** Approximate size of those entries in bytes (UTF-16, as browsers count quota) */
+  bytes: number
+  /** Entries evicted to stay within limits or free up quota since creation */
+  evictions: number
+}
+
+/**
+ * The parts of a cache key, as produced by `generateKey`.
+ */
+export interface ParsedCacheKey {
+  /** Whether the key holds content or an asset */
+  kind: 'content' | 'asset'
+  /** Project ID */
+  projectId: string
+  /** Locale of the entry */
+  locale: string
+  /** Collection slug, for content */
+  collection?: string
+  /** Asset ID, for assets */
+  assetId?: string
+  /** Query type */
+  queryType: CacheKeyComponents['queryType']
+  /** Item ID, for item queries */
+  itemId?: string
+  /** Hash of the query parameters, if any */
+  paramHash?: string
+  /** Cache partition, e.g. per credential or preview */
+  scope?: string
+}
+
+/**
+ * A cached entry as reported by `inspect`.
+ */
+export interface CacheEntryInfo extends ParsedCacheKey {
+  /** Cache key */
+  key: string
+  /** 'storage' for the content storage, 'binary' for the binary asset tier */
+  tier: 'storage' | 'binary'
+  /** Approximate size in bytes */
+  bytes: number
+  /** Time since the entry was cached, in milliseconds */
+  age: number
+  /** TTL of the entry in milliseconds */
+  ttl: number
+  /** Time until the entry expires, in milliseconds; 0 once expired */
+  remainingTtl: number
+  /** Whether the TTL has passed */
+  expired: boolean
+  /** Invalidation tags */
+  tags?: string[]
+}
+
+/**
+ * Cache lookups and evictions counted since the cache was created.
+ * Expired entries count as misses, even when served stale.
+ */
+export interface CacheCounters {
+  /** Lookups that found a fresh entry */
+  hits: number
+  /** Lookups that found nothing or an expired entry */
+  misses: number
+  /** Entries evicted to stay within limits or free up quota */
+  evictions: number
+}
+
+/**
+ * Number and size of a group of entries.
+ */
+export interface CacheTotals {
+  /** Number of entries */
+  entries: number
+  /** Approximate size in bytes */
+  bytes: number
+}
+
+/**
+ * Snapshot of a cache's contents and counters, for debugging.
+ */
+export interface CacheInspection {
+  /** Every cached entry, including expired ones */
+  entries: CacheEntryInfo[]
+  /** Totals over all entries */
+  totals: CacheTotals
+  /** Totals by locale */
+  byLocale: Record<string, CacheTotals>
+  /** Totals for content and assets */
+  byKind: Record<ParsedCacheKey['kind'], CacheTotals>
+  /** Entries held decoded in the in-memory tier */
+  memory: CacheTotals
+  /** Counters over all lookups */
+  counters: CacheCounters
+  /** Counters by collection slug */
+  collections: Record<string, CacheCounters>
+  /** Counters for asset lookups */
+  assets: CacheCounters
+}
+
+/**
+ * Options for reconfiguring a live cache.
+ */
+export interface CacheReconfigureOptions {
+  /** Move cached entries to the new storage when it changes (default: false) */
+  migrate?: boolean
+}
+
+/**
+ * Serialized cache entries, e.g. from a server render, for seeding another
+ * cache with `hydrate`. Plain JSON, so it can be embedded in a page.
+ */
+export interface DehydratedCache {
+  /** Format version */
+  version: 1
+  /** Stored entries by cache key, with their original timestamps */
+  entries: Record<string, CacheEntry>
 }
 
 /**
@@ -41,8 +222,14 @@ export interface CacheOperations {
   /** Get cached data for a key */
   get<T>(key: string): Promise<T | null>
   
+  /** Get a cache entry with its validators and freshness */
+  getEntry<T>(key: string, options?: CacheGetOptions): Promise<CacheLookup<T> | null>
+  
   /** Set cached data for a key */
-  set<T>(key: string, data: T, ttl?: number): Promise<void>
+  set<T>(key: string, data: T, ttl?: number, options?: CacheSetOptions): Promise<void>
+  
+  /** Restart the TTL of an existing entry */
+  touch(key: string, ttl?: number): Promise<boolean>
   
   /** Remove cached data for a key */
   remove(key: string): Promise<void>
@@ -59,20 +246,98 @@ export interface CacheOperations {
 
 /**
  * Storage adapter interface for different storage types.
+ * Implement it to keep the cache somewhere other than browser storage,
+ * e.g. AsyncStorage-backed memory in React Native or a shared store in SSR.
+ * Adapters must not throw, except from `setItem`: quota errors let the cache
+ * evict entries and retry, other failures are logged and the entry is not
+ * cached. Failed reads should return null.
  */
 export interface StorageAdapter {
   /** Get item from storage */
   getItem(key: string): string | null
   
-  /** Set item in storage */
+  /** Set item in storage; may throw, e.g. a quota error, see `isQuotaError` */
   setItem(key: string, value: string): void
   
   /** Remove item from storage */
   removeItem(key: string): void
   
-  /** Clear all items from storage */
+  /** Clear all VMS items (keys matching `isCacheKey`) from storage */
   clear(): void
   
   /** Get all keys from storage */
   keys(): string[]
-}
\ No newline at end of file
+}
+
+/**
+ * Transforms serialized cache entries before they are stored, e.g. to
+ * compress or encrypt them. Codecs run in order on write and in reverse
+ * order on read.
+ */
+export interface CacheCodec {
+  /** Recorded with each encoded entry; entries naming a codec that isn't configured are cache misses */
+  name: string
+  /** Transform a serialized entry before it is stored */
+  encode(value: string): string | Promise<string>
+  /** Reverse `encode`; throw when the value can't be decoded, making the entry a cache miss */
+  decode(value: string): string | Promise<string>
+}
+
+/**
+ * Asynchronous storage adapter for backends with async I/O,
+ * such as IndexedDB, a key-value server or the filesystem.
+ * Like StorageAdapter, implementations should only reject from `setItem`;
+ * failed reads should resolve to null.
+ */
+export interface AsyncStorageAdapter {
+  /** Get item from storage */
+  getItem(key: string): Promise<string | null>
+  
+  /** Set item in storage; may reject, e.g. with a quota error, see `isQuotaError` */
+  setItem(key: string, value: string): Promise<void>
+  
+  /** Remove item from storage */
+  removeItem(key: string): Promise<void>
+  
+  /** Clear all VMS items (keys matching `isCacheKey`) from storage */
+  clear(): Promise<void>
+  
+  /** Get all keys from storage */
+  keys(): Promise<string[]>
+}
+
+/**
+ * Binary asset as kept by an asset store.
+ */
+export interface AssetCacheEntry extends CacheValidators {
+  /** Asset bytes, stored without encoding */
+  data: ArrayBuffer
+  /** Content type (MIME type) */
+  contentType: string
+  /** Content length in bytes */
+  contentLength: number
+  /** Asset file name if available */
+  fileName?: string
+  /** Timestamp when the asset was cached */
+  timestamp: number
+  /** TTL of this entry in milliseconds */
+  ttl: number
+}
+
+/**
+ * Binary store used for downloaded assets, e.g. Cache Storage or IndexedDB.
+ * Implementations may reject; the asset cache treats failures as misses.
+ */
+export interface AssetStore {
+  /** Get a stored asset */
+  get(key: string): Promise<AssetCacheEntry | null>
+  
+  /** Store an asset */
+  put(key: string, entry: AssetCacheEntry): Promise<void>
+  
+  /** Remove a stored asset */
+  delete(key: string): Promise<void>
+  
+  /** Get all keys in the store */
+  keys(): Promise<string[]>
+}
@@ -2,6 +2,62 @@
  * Configuration types for the VMS SDK.
  */
 
+import type { AssetStore, AsyncStorageAdapter, CacheCodec, StorageAdapter } from './cache.js'
+import type { Middleware } from './middleware.js'
+
+/**
+ * How content queries use the cache.
+ * - `cache-first`: use fresh cached data, otherwise fetch (and revalidate expired entries)
+ * - `network-first`: always fetch; fall back to cached data when the request fails
+ * - `stale-while-revalidate`: return expired data at once and refresh it in the background
+ * - `cache-only`: only read the cache, including expired entries; never fetch
+ * - `network-only`: always fetch; never read or write the cache
+ */
+export type CacheStrategy =
+  | 'cache-first'
+  | 'network-first'
+  | 'stale-while-revalidate'
+  | 'cache-only'
+  | 'network-only'
+
+/**
+ * Where cached entries are kept: a built-in storage or a custom adapter.
+ */
+export type CacheStorageOption = 'localStorage' | 'sessionStorage' | 'memory' | StorageAdapter | AsyncStorageAdapter
+
+/**
+ * Where downloaded assets are cached.
+ * - 'auto': Cache Storage if available, then IndexedDB, then `storage`
+ * - 'cache-storage' / 'indexeddb': that binary store only
+ * - 'storage': base64 in the content cache's storage
+ * - an AssetStore instance: that store
+ */
+export type AssetStorage = 'auto' | 'cache-storage' | 'indexeddb' | 'storage' | AssetStore
+
+/**
+ * Cache settings for one collection, overriding the client-wide ones.
+ */
+export interface CollectionCachePolicy {
+  /** TTL in milliseconds for this collection's entries */
+  ttl?: number
+  /** TTL in milliseconds for empty results and missing items */
+  negativeTtl?: number
+  /** How queries on this collection use the cache */
+  strategy?: CacheStrategy
+  /** Set to false to never cache this collection */
+  enabled?: boolean
+}
+
+/**
+ * Budget of the in-memory tier holding decoded entries.
+ */
+export interface MemoryCacheConfig {
+  /** Maximum number of entries kept decoded (default: 100) */
+  maxEntries?: number
+  /** Approximate byte budget, measured like `maxBytes` (default: 5 MB) */
+  maxBytes?: number
+}
+
 /**
  * Cache configuration options.
  */
@@ -10,8 +66,159 @@ export interface CacheConfig {
   enabled?: boolean
   /** Cache TTL in milliseconds (default: 300000 = 5 minutes) */
   ttl?: number
-  /** Storage type to use (default: localStorage) */
-  storage?: 'localStorage' | 'sessionStorage'
+  /** TTL in milliseconds for empty results and missing items (default: 60000 = 1 minute) */
+  negativeTtl?: number
+  /** Per-collection overrides, keyed by collection slug */
+  collections?: Record<string, CollectionCachePolicy>
+  /** Storage type or adapter instance to use (default: localStorage) */
+  storage?: CacheStorageOption
+  /** How content queries use the cache (default: 'cache-first') */
+  strategy?: CacheStrategy
+  /** Keep other tabs' caches in sync through BroadcastChannel (default: true) */
+  sync?: boolean
+  /**
+   * Version of your content model. Bump it when the shape of your content
+   * changes, so entries cached under the previous version are purged
+   * instead of read back (default: none)
+   */
+  cacheVersion?: string
+  /**
+   * Maximum number of entries; least recently used entries are evicted beyond
+   * it. Assets in a binary `assetStorage` tier don't count (default: 1000)
+   */
+  maxEntries?: number
+  /**
+   * Approximate byte budget for entries, evicting least recently used ones.
+   * Assets in a binary `assetStorage` tier don't count: they are bounded by
+   * their TTL and the browser's quota, evicted oldest first when it is
+   * reached (default: unlimited)
+   */
+  maxBytes?: number
+  /**
+   * In-memory tier of decoded entries in front of `storage`, so hits skip
+   * `JSON.parse`; false turns it off (default: 100 entries, 5 MB)
+   */
+  memoryCache?: MemoryCacheConfig | false
+  /**
+   * Codecs applied to persisted entries, e.g. `createLzCodec()` and
+   * `createAesGcmCodec(key)`; run in order on write (default: none)
+   */
+  codecs?: CacheCodec[]
+  /**
+   * Where downloaded assets are cached (default: 'auto').
+   * Binary stores are only picked automatically with browser storage; with
+   * 'memory' or a custom adapter, assets go to that storage.
+   */
+  assetStorage?: AssetStorage
+}
+
+/**
+ * Retry configuration for idempotent requests (GET).
+ */
+export interface RetryConfig {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  maxAttempts?: number
+  /** Base delay for exponential backoff in milliseconds (default: 300) */
+  baseDelay?: number
+  /** Maximum delay between attempts in milliseconds (default: 10000) */
+  maxDelay?: number
+  /**
+   * Statuses to retry, or a predicate deciding per status and attempt
+   * (default: [408, 429, 500, 502, 503, 504])
+   */
+  retryOn?: number[] | ((status: number, attempt: number) => boolean)
+  /** Retry network failures and timeouts (default: true) */
+  retryNetworkErrors?: boolean
+  /** Wait for the delay given in Retry-After headers (default: true) */
+  respectRetryAfter?: boolean
+}
+
+/**
+ * Record of a single failed attempt, stored in `VibeCMSError.details.attempts`.
+ */
+export interface RetryAttempt {
+  /** Attempt number, starting at 1 */
+  attempt: number
+  /** HTTP status of the response, if one was received */
+  status?: number
+  /** Error message, if the attempt failed without a response */
+  error?: string
+  /** Delay in milliseconds before the next attempt, if one was made */
+  delay?: number
+}
+
+/**
+ * Credentials for protected content.
+ * Static credentials and a token provider may be combined.
+ */
+export interface AuthConfig {
+  /** Static API key, sent in the X-API-Key header */
+  apiKey?: string
+  /** Static bearer token, sent in the Authorization header */
+  token?: string
+  /** Bearer token provider; called before the first request and again after a 401 */
+  getToken?: () => string | Promise<string>
+  /**
+   * Called when a request is rejected with 401. May return a fresh token;
+   * otherwise `getToken` is called again. The request is retried once if the token changed.
+   */
+  onUnauthorized?: () => string | void | Promise<string | void>
+  /**
+   * Cache partition for content fetched with these credentials, e.g. the
+   * user ID. Required with `getToken` while caching is enabled (default: derived from the credential)
+   */
+  scope?: string
+}
+
+/**
+ * Preview mode options, for reading unpublished content.
+ */
+export interface PreviewConfig {
+  /** Preview token, sent in the X-Preview-Token header (may be omitted when `auth` grants preview access) */
+  token?: string
+  /** Cache preview content in its own partition instead of always fetching (default: false) */
+  cache?: boolean
+}
+
+/**
+ * Content version checks, for dropping cached content soon after it is published.
+ */
+export interface ManifestConfig {
+  /** Milliseconds between checks; 0 turns polling off (default: 60000) */
+  interval?: number
+  /** Also check when the tab becomes visible or the window regains focus (default: true) */
+  onFocus?: boolean
+}
+
+/**
+ * Log levels, from quietest to most verbose.
+ */
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug'
+
+/**
+ * Structured log event emitted by the SDK.
+ */
+export interface LogEvent {
+  /** Severity of the event */
+  level: Exclude<LogLevel, 'silent'>
+  /** Stable, machine-readable event name (e.g. 'request.start', 'cache.hit') */
+  event: string
+  /** Human-readable description */
+  message: string
+  /** Time the event was emitted (ms since epoch) */
+  timestamp: number
+  /** Additional structured data; sensitive headers are already redacted */
+  data?: Record<string, unknown>
+}
+
+/**
+ * Logger configuration.
+ */
+export interface LoggerConfig {
+  /** Minimum level to emit (default: 'silent') */
+  level?: LogLevel
+  /** Receives every emitted event (default: writes to the console) */
+  handler?: (event: LogEvent) => void
 }
 
 /**
@@ -26,6 +233,22 @@ export interface VibeCMSConfig {
   cache?: CacheConfig
   /** Default locale for content requests (BCP 47 format, default: en-US) */
   locale?: string
+  /** Middleware run around every HTTP request, in order */
+  middleware?: Middleware[]
+  /** Retry transient failures of GET requests; `true` uses the defaults (default: disabled) */
+  retry?: RetryConfig | boolean
+  /** Merge identical in-flight GET requests into one network call (default: true) */
+  dedupe?: boolean
+  /** Structured logging of requests and cache activity (default: silent) */
+  logger?: LoggerConfig
+  /** Default request timeout in milliseconds (default: 30000) */
+  timeout?: number
+  /** Credentials attached to every request, including asset downloads */
+  auth?: AuthConfig
+  /** Query preview endpoints for unpublished content; `true` uses the defaults (default: disabled) */
+  preview?: PreviewConfig | boolean
+  /** Watch the project's content manifest and invalidate changed collections; `true` uses the defaults (default: disabled) */
+  manifest?: ManifestConfig | boolean
 }
 
 /**
@@ -40,26 +263,112 @@ export interface ResolvedVibeCMSConfig {
   cache: Required<CacheConfig>
   /** Locale for content requests */
   locale: string
+  /** Middleware registered at construction time */
+  middleware: Middleware[]
+  /** Retry configuration with defaults applied (maxAttempts is 1 when disabled) */
+  retry: Required<RetryConfig>
+  /** Whether identical in-flight GET requests are merged */
+  dedupe: boolean
+  /** Logger configuration with the level resolved */
+  logger: LoggerConfig & { level: LogLevel }
+  /** Default request timeout in milliseconds */
+  timeout: number
+  /** Credentials, if configured */
+  auth?: AuthConfig
+  /** Preview options, present only in preview mode */
+  preview?: PreviewConfig
+  /** Manifest checks with defaults applied, present only when enabled */
+  manifest?: Required<ManifestConfig>
+}
+
+/**
+ * Per-call cancellation and timeout options.
+ */
+export interface RequestControlOptions {
+  /** Signal to cancel the request; cancellation rejects with RequestAbortedError */
+  signal?: AbortSignal
+  /** Timeout for this call in milliseconds (default: the client timeout) */
+  timeout?: number
+}
+
+/**
+ * Options for collection reads that go through the cache.
+ */
+export interface ReadOptions extends RequestControlOptions {
+  /** Extra tags for the cache entry, for `client.invalidate({ tag })` */
+  tags?: string[]
 }
 
 /**
  * Options for collection queries.
  */
-export interface QueryOptions {
+export interface QueryOptions extends ReadOptions {
   /** Maximum number of items to return */
   limit?: number
 }
 
+/**
+ * Stable, machine-readable error codes.
+ * Branch on these instead of parsing error messages.
+ */
+export type VibeCMSErrorCode =
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'VALIDATION_ERROR'
+  | 'AUTH_ERROR'
+  | 'PARSE_ERROR'
+  | 'ABORTED'
+  | 'CACHE_MISS'
+  | 'HTTP_ERROR'
+  | 'SERVER_ERROR'
+  | 'UNKNOWN'
+
+/**
+ * Request context attached to an error.
+ */
+export interface VibeCMSErrorContext {
+  /** URL of the failed request */
+  url?: string
+  /** Server-assigned request ID (X-Request-ID response header) */
+  requestId?: string
+}
+
+/**
+ * Options for constructing a VibeCMSError directly.
+ */
+export interface VibeCMSErrorOptions extends VibeCMSErrorContext {
+  /** Error code (default: derived from the status) */
+  code?: VibeCMSErrorCode
+  /** Whether retrying the request may succeed (default: derived from the status) */
+  retryable?: boolean
+}
+
+/**
+ * Statuses for which a later retry may succeed; 0 is a network failure.
+ */
+const RETRYABLE_STATUSES = [0, 408, 429, 500, 502, 503, 504]
+
 /**
  * SDK Error class for consistent error handling.
+ * Base class of every error thrown by the SDK.
  */
 export class VibeCMSError extends Error {
   /** HTTP status code if available */
   public readonly status?: number
   /** Additional error details */
   public readonly details?: any
+  /** Stable error code */
+  public readonly code: VibeCMSErrorCode
+  /** Whether retrying the request may succeed */
+  public readonly retryable: boolean
+  /** URL of the failed request, if any */
+  public readonly url?: string
+  /** Server-assigned request ID, if the response carried one */
+  public readonly requestId?: string
 
-  constructor(message: string, status?: number, details?: any) {
+  constructor(message: string, status?: number, details?: any, options: VibeCMSErrorOptions = {}) {
     super(message)
     this.name = 'VibeCMSError'
     if (status !== undefined) {
@@ -68,6 +377,14 @@ export class VibeCMSError extends Error {
     if (details !== undefined) {
       this.details = details
     }
+    this.code = options.code ?? codeForStatus(status)
+    this.retryable = options.retryable ?? (status !== undefined && RETRYABLE_STATUSES.includes(status))
+    if (options.url !== undefined) {
+      this.url = options.url
+    }
+    if (options.requestId !== undefined) {
+      this.requestId = options.requestId
+    }
     
     // Maintains proper stack trace for where error was thrown (V8)
     if (Error.captureStackTrace) {
@@ -76,6 +393,171 @@ export class VibeCMSError extends Error {
   }
 }
 
+/**
+ * The requested content or asset does not exist (HTTP 404).
+ */
+export class NotFoundError extends VibeCMSError {
+  constructor(message: string, status = 404, details?: any, context: VibeCMSErrorContext = {}) {
+    super(message, status, details, { ...context, code: 'NOT_FOUND', retryable: false })
+    this.name = 'NotFoundError'
+  }
+}
+
+/**
+ * Too many requests (HTTP 429). `retryAfter` holds the server's requested
+ * delay in milliseconds when it sent a Retry-After header.
+ */
+export class RateLimitError extends VibeCMSError {
+  /** Delay requested by the server before retrying, in milliseconds */
+  public readonly retryAfter?: number
+
+  constructor(
+    message: string,
+    status = 429,
+    details?: any,
+    context: VibeCMSErrorContext & { retryAfter?: number } = {}
+  ) {
+    const { retryAfter, ...rest } = context
+    super(message, status, details, { ...rest, code: 'RATE_LIMITED', retryable: true })
+    this.name = 'RateLimitError'
+    if (retryAfter !== undefined) {
+      this.retryAfter = retryAfter
+    }
+  }
+}
+
+/**
+ * The request timed out, either locally or at the server (HTTP 408).
+ */
+export class TimeoutError extends VibeCMSError {
+  constructor(message: string, status = 408, details?: any, context: VibeCMSErrorContext = {}) {
+    super(message, status, details, { ...context, code: 'TIMEOUT', retryable: true })
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * The request never produced a response (DNS, connection, CORS, ...).
+ * Reported with status 0.
+ */
+export class NetworkError extends VibeCMSError {
+  constructor(message: string, status = 0, details?: any, context: VibeCMSErrorContext = {}) {
+    super(message, status, details, { ...context, code: 'NETWORK_ERROR', retryable: true })
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * Invalid input, rejected either by the SDK before sending (no status)
+ * or by the server (HTTP 400/422).
+ */
+export class ValidationError extends VibeCMSError {
+  constructor(message: string, status?: number, details?: any, context: VibeCMSErrorContext = {}) {
+    super(message, status, details, { ...context, code: 'VALIDATION_ERROR', retryable: false })
+    this.name = 'ValidationError'
+  }
+}
+
+/**
+ * Missing or rejected credentials (HTTP 401/403).
+ */
+export class AuthError extends VibeCMSError {
+  constructor(message: string, status = 401, details?: any, context: VibeCMSErrorContext = {}) {
+    super(message, status, details, { ...context, code: 'AUTH_ERROR', retryable: false })
+    this.name = 'AuthError'
+  }
+}
+
+/**
+ * The response body could not be parsed.
+ */
+export class ParseError extends VibeCMSError {
+  constructor(message: string, status?: number, details?: any, context: VibeCMSErrorContext = {}) {
+    super(message, status, details, { ...context, code: 'PARSE_ERROR', retryable: false })
+    this.name = 'ParseError'
+  }
+}
+
+/**
+ * Error thrown when a request is cancelled through an AbortSignal.
+ * Distinct from timeouts, which are reported as TimeoutError.
+ */
+export class RequestAbortedError extends VibeCMSError {
+  constructor(url?: string, reason?: unknown) {
+    super('Request aborted', undefined, { url, reason }, {
+      code: 'ABORTED',
+      retryable: false,
+      ...(url !== undefined ? { url } : {}),
+    })
+    this.name = 'RequestAbortedError'
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RequestAbortedError)
+    }
+  }
+}
+
+/**
+ * Create the error subclass matching an HTTP error status.
+ */
+export function createHttpError(
+  status: number,
+  message: string,
+  details?: any,
+  context: VibeCMSErrorContext & { retryAfter?: number } = {}
+): VibeCMSError {
+  const { retryAfter, ...rest } = context
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, status, details, rest)
+    case 401:
+    case 403:
+      return new AuthError(message, status, details, rest)
+    case 404:
+      return new NotFoundError(message, status, details, rest)
+    case 408:
+      return new TimeoutError(message, status, details, rest)
+    case 429:
+      return new RateLimitError(message, status, details, context)
+    default:
+      return new VibeCMSError(message, status, details, rest)
+  }
+}
+
+/**
+ * Derive the default error code for a status.
+ */
+function codeForStatus(status: number | undefined): VibeCMSErrorCode {
+  if (status === undefined) {
+    return 'UNKNOWN'
+  }
+  switch (status) {
+    case 0:
+      return 'NETWORK_ERROR'
+    case 400:
+    case 422:
+      return 'VALIDATION_ERROR'
+    case 401:
+    case 403:
+      return 'AUTH_ERROR'
+    case 404:
+      return 'NOT_FOUND'
+    case 408:
+      return 'TIMEOUT'
+    case 429:
+      return 'RATE_LIMITED'
+  }
+  if (status >= 500) {
+    return 'SERVER_ERROR'
+  }
+  if (status >= 400) {
+    return 'HTTP_ERROR'
+  }
+  return 'UNKNOWN'
+}
+
 /**
  * Validate locale format (BCP 47).
  * Must be 2-20 characters following BCP 47 format (e.g., 'en-US', 'fr', 'zh-CN').
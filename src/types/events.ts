@@ -0,0 +1,62 @@
+/**
+ * Types for events emitted by the SDK.
+ */
+
+/**
+ * Emitted when a background refresh brings new data for a query,
+ * e.g. with the stale-while-revalidate cache strategy.
+ */
+export interface UpdateEvent<T = unknown> {
+  /** Collection slug */
+  collection: string
+  /** Locale of the query */
+  locale: string
+  /** Query that was refreshed */
+  queryType: 'first' | 'many' | 'item'
+  /** Item ID for item queries */
+  itemId?: string
+  /** Cache key of the refreshed entry */
+  key: string
+  /** The fresh data: an item, an array of items, or null */
+  data: T | T[] | null
+}
+
+/**
+ * Emitted when another tab (or another client in this tab) changed the
+ * cache, so queries showing that content can refresh.
+ */
+export interface SyncEvent {
+  /** What changed: entries written or removed, the cache cleared, or tags invalidated */
+  type: 'set' | 'remove' | 'clear' | 'invalidate'
+  /** Affected cache keys, for 'set', 'remove' and 'invalidate' */
+  keys?: string[]
+  /** Invalidated tags, for 'invalidate' */
+  tags?: string[]
+}
+
+/**
+ * Emitted when the project's content manifest reports a new version and
+ * the changed collections were invalidated.
+ */
+export interface VersionEvent {
+  /** New content version */
+  version: string
+  /** Content version the cache was filled under */
+  previousVersion: string
+  /** Slugs of the invalidated collections; null when every collection was invalidated */
+  collections: string[] | null
+}
+
+/**
+ * Events emitted by a client, keyed by name.
+ */
+export interface VibeCMSEvents {
+  update: UpdateEvent
+  sync: SyncEvent
+  version: VersionEvent
+}
+
+/**
+ * Listener for an event payload.
+ */
+export type VibeCMSEventListener<T> = (payload: T) => void
@@ -4,4 +4,6 @@
 
 export * from './api.js'
 export * from './config.js'
-export * from './cache.js'
\ No newline at end of file
+export * from './cache.js'
+export * from './middleware.js'
+export * from './events.js'
\ No newline at end of file
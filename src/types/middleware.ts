@@ -0,0 +1,40 @@
+/**
+ * Types for the request/response middleware pipeline.
+ */
+
+/**
+ * Request description passed through the middleware pipeline.
+ * Middleware may mutate it or pass a modified copy to `next`.
+ */
+export interface MiddlewareRequest {
+  /** Fully qualified request URL */
+  url: string
+  /** HTTP method */
+  method: string
+  /** Request headers as a plain object */
+  headers: Record<string, string>
+  /** Remaining fetch options (body, signal, ...) */
+  init: Omit<RequestInit, 'method' | 'headers'>
+}
+
+/**
+ * Continue the pipeline with the next middleware, or the network for the last one.
+ */
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<Response>
+
+/**
+ * Middleware wrapping every HTTP request made by the SDK.
+ * Middleware run in registration order around the request: code before `next()`
+ * sees the outgoing request, code after it sees the response.
+ *
+ * @example
+ * ```typescript
+ * const timing: Middleware = async (request, next) => {
+ *   const start = Date.now()
+ *   const response = await next(request)
+ *   console.log(request.method, request.url, Date.now() - start, 'ms')
+ *   return response
+ * }
+ * ```
+ */
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<Response>
@@ -3,4 +3,5 @@
  */
 
 export * from './url.js'
-export * from './validation.js'
\ No newline at end of file
+export * from './validation.js'
+export * from './structural.js'
\ No newline at end of file
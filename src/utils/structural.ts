@@ -0,0 +1,50 @@
+/**
+ * Structural sharing utilities for VMS SDK.
+ */
+
+/**
+ * Return `next`, reusing every part of `previous` that is deeply equal to
+ * the corresponding part of `next`. If nothing changed, `previous` itself is
+ * returned, so reference checks (React memo, Vue watchers) see no change.
+ *
+ * Only plain objects and arrays are merged; other values are compared by identity.
+ */
+export function replaceEqualDeep<T>(previous: unknown, next: T): T {
+  if (previous === next) {
+    return previous as T
+  }
+
+  const bothArrays = Array.isArray(previous) && Array.isArray(next)
+  if (!bothArrays && !(isPlainObject(previous) && isPlainObject(next))) {
+    return next
+  }
+
+  const previousRecord = previous as Record<string | number, unknown>
+  const nextRecord = next as Record<string | number, unknown>
+  const previousKeys = bothArrays ? null : Object.keys(previousRecord)
+  const keys = bothArrays ? (next as unknown[]).map((_, index) => index) : Object.keys(nextRecord)
+  const previousSize = bothArrays ? (previous as unknown[]).length : previousKeys!.length
+  const copy = (bothArrays ? [] : {}) as Record<string | number, unknown>
+
+  let equalItems = 0
+  for (const key of keys) {
+    const value = replaceEqualDeep(previousRecord[key], nextRecord[key])
+    copy[key] = value
+    if (value === previousRecord[key] && (bothArrays || Object.prototype.hasOwnProperty.call(previousRecord, key))) {
+      equalItems++
+    }
+  }
+
+  return (previousSize === keys.length && equalItems === previousSize ? previous : copy) as T
+}
+
+/**
+ * Whether a value is a plain object (not an array, class instance or null).
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
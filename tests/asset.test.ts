@@ -6,9 +6,11 @@ import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
 import { AssetManager } from '../src/core/asset.js'
 import { Fetcher } from '../src/core/fetcher.js'
 import { BrowserCache } from '../src/core/cache.js'
+import { AssetCache, CacheStorageAssetStore } from '../src/core/asset-cache.js'
 import { createVibeCMS } from '../src/index.js'
 import { mockFetch, TEST_PROJECT_ID } from './setup.js'
 import type { AssetData } from '../src/types/api.js'
+import { RequestAbortedError, NotFoundError, ValidationError } from '../src/types/config.js'
 
 // Test constants
 const TEST_ASSET_ID = 'xipxoehgsad'
@@ -220,6 +222,34 @@ describe('AssetManager', () => {
       expect(view1.length).toBe(view2.length)
     })
 
+    test('revalidates expired assets with a conditional request', async () => {
+      const now = Date.now()
+      mockFetch.mockResolvedValueOnce(
+        createMockAssetResponse(new ArrayBuffer(64), 'image/png', 200, { etag: '"a1"' })
+      )
+      await assetManager.downloadAsset(TEST_ASSET_ID)
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 301000)
+      const arrayBuffer = vi.fn()
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 304,
+        statusText: 'Not Modified',
+        headers: new Headers(),
+        arrayBuffer,
+      } as unknown as Response)
+
+      const result = await assetManager.downloadAsset(TEST_ASSET_ID)
+
+      expect(result.contentType).toBe('image/png')
+      expect(result.data.byteLength).toBe(64)
+      expect(arrayBuffer).not.toHaveBeenCalled()
+      expect(mockFetch.mock.calls[1]?.[1]?.headers).toMatchObject({
+        'Accept': '*/*',
+        'If-None-Match': '"a1"',
+      })
+    })
+
     test('bypasses cache when useCache is false', async () => {
       const mockBuffer = new ArrayBuffer(256)
       mockFetch.mockResolvedValue(createMockAssetResponse(mockBuffer))
@@ -287,6 +317,55 @@ describe('AssetManager', () => {
       ).rejects.toThrow('Asset not found')
     })
 
+    test('throws NotFoundError with the asset URL for missing assets', async () => {
+      mockFetch.mockImplementation(() => Promise.resolve({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        headers: new Headers({ 'X-Request-ID': 'req_asset1' }),
+        text: () => Promise.resolve(JSON.stringify({ detail: 'Asset not found' }))
+      } as Response))
+
+      const error = await assetManager.downloadAsset(TEST_ASSET_ID, { useCache: false }).catch(e => e)
+
+      expect(error).toBeInstanceOf(NotFoundError)
+      expect(error.message).toBe('VMS SDK Asset Error: Asset not found')
+      expect(error.url).toContain(`/api/assets/${TEST_PROJECT_ID}/${TEST_ASSET_ID}`)
+      expect(error.requestId).toBe('req_asset1')
+    })
+
+    test('records every attempt when retries are exhausted', async () => {
+      const retryManager = new AssetManager(
+        new Fetcher(TEST_BASE_URL, { retry: { maxAttempts: 3, baseDelay: 1 } }),
+        new BrowserCache({ enabled: false }),
+        TEST_PROJECT_ID,
+        TEST_LOCALE
+      )
+      mockFetch.mockImplementation(() => Promise.resolve({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+        headers: new Headers(),
+        text: () => Promise.resolve('Unavailable')
+      } as Response))
+
+      const error = await retryManager.downloadAsset(TEST_ASSET_ID, { useCache: false }).catch(e => e)
+
+      expect(error.status).toBe(503)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      expect(error.details.attempts).toHaveLength(3)
+      expect(error.details.attempts[0]).toEqual(
+        expect.objectContaining({ attempt: 1, status: 503, delay: expect.any(Number) })
+      )
+      expect(error.details.attempts[2]).toEqual({ attempt: 3, status: 503 })
+    })
+
+    test('throws ValidationError for invalid input', async () => {
+      await expect(
+        assetManager.downloadAsset('invalid@id!')
+      ).rejects.toBeInstanceOf(ValidationError)
+    })
+
     test('throws error for invalid asset ID', async () => {
       await expect(
         assetManager.downloadAsset('invalid@id!')
@@ -305,6 +384,31 @@ describe('AssetManager', () => {
       ).rejects.toThrow('VMS SDK: Asset height must be a positive number')
     })
 
+    test('supports cancellation without affecting the cache key', async () => {
+      mockFetch.mockResolvedValueOnce(createMockAssetResponse(new ArrayBuffer(128)))
+      const controller = new AbortController()
+
+      await assetManager.downloadAsset(TEST_ASSET_ID, { signal: controller.signal, timeout: 5000 })
+      await assetManager.downloadAsset(TEST_ASSET_ID)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFetch.mock.calls[0]?.[1]?.signal).toBeInstanceOf(AbortSignal)
+    })
+
+    test('rejects with RequestAbortedError when aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      mockFetch.mockImplementationOnce(() => {
+        const abortError = new Error('The operation was aborted')
+        abortError.name = 'AbortError'
+        return Promise.reject(abortError)
+      })
+
+      await expect(
+        assetManager.downloadAsset(TEST_ASSET_ID, { signal: controller.signal, useCache: false })
+      ).rejects.toBeInstanceOf(RequestAbortedError)
+    })
+
     test('uses custom cache TTL when provided', async () => {
       const mockBuffer = new ArrayBuffer(300)
       mockFetch.mockResolvedValueOnce(createMockAssetResponse(mockBuffer))
@@ -342,6 +446,167 @@ describe('AssetManager', () => {
   })
 })
 
+/**
+ * Minimal in-memory CacheStorage holding one cache.
+ */
+function createFakeCacheStorage() {
+  const responses = new Map<string, Response>()
+  const cache = {
+    match: vi.fn(async (url: string) => responses.get(url)?.clone()),
+    put: vi.fn(async (url: string, response: Response) => void responses.set(url, response)),
+    delete: vi.fn(async (url: string) => responses.delete(url)),
+    keys: vi.fn(async () => Array.from(responses.keys()).map(url => ({ url }))),
+  }
+  return { responses, open: vi.fn(async () => cache) } as unknown as CacheStorage & { responses: Map<string, Response> }
+}
+
+describe('Binary Asset Cache', () => {
+  let cacheStorage: ReturnType<typeof createFakeCacheStorage>
+  let cache: BrowserCache
+  let assetManager: AssetManager
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    localStorage.clear()
+    cacheStorage = createFakeCacheStorage()
+    vi.stubGlobal('caches', cacheStorage)
+    cache = new BrowserCache({ ttl: 300000 })
+    assetManager = new AssetManager(new Fetcher(TEST_BASE_URL), cache, TEST_PROJECT_ID, TEST_LOCALE)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  /**
+   * Make the fake Cache Storage throw quota errors beyond `limit` assets.
+   */
+  const limitCacheStorage = async (limit: number) => {
+    const { put } = await cacheStorage.open('vibe-cms-assets')
+    vi.mocked(put).mockImplementation(async (url, response) => {
+      if (cacheStorage.responses.size >= limit) {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError')
+      }
+      cacheStorage.responses.set(url as string, response)
+    })
+  }
+
+  test('stores asset bytes in Cache Storage instead of localStorage', async () => {
+    const bytes = new Uint8Array([1, 2, 3, 250])
+    mockFetch.mockResolvedValueOnce(createMockAssetResponse(bytes.buffer, 'image/png', 200, {
+      'content-disposition': 'attachment; filename="ünïcode.png"',
+    }))
+
+    await assetManager.downloadAsset(TEST_ASSET_ID)
+    const cached = await assetManager.downloadAsset(TEST_ASSET_ID)
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(cacheStorage.responses.size).toBe(1)
+    expect(localStorage.setItem).not.toHaveBeenCalledWith(expect.stringContaining(':asset:'), expect.anything())
+    expect(Array.from(new Uint8Array(cached.data))).toEqual([1, 2, 3, 250])
+    expect(cached).toMatchObject({ contentType: 'image/png', contentLength: 4, fileName: 'ünïcode.png', assetId: TEST_ASSET_ID })
+  })
+
+  test('applies TTL and revalidates expired assets', async () => {
+    const now = Date.now()
+    mockFetch.mockResolvedValueOnce(
+      createMockAssetResponse(new ArrayBuffer(16), 'image/png', 200, { etag: '"v1"' })
+    )
+    await assetManager.downloadAsset(TEST_ASSET_ID, { cacheTtl: 1000 })
+
+    vi.spyOn(Date, 'now').mockReturnValue(now + 2000)
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers() } as Response)
+
+    const result = await assetManager.downloadAsset(TEST_ASSET_ID)
+    await assetManager.downloadAsset(TEST_ASSET_ID)
+
+    expect(result.data.byteLength).toBe(16)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(mockFetch.mock.calls[1]?.[1]?.headers).toMatchObject({ 'If-None-Match': '"v1"' })
+  })
+
+  test('clearAssetCache empties the binary tier', async () => {
+    mockFetch.mockResolvedValue(createMockAssetResponse(new ArrayBuffer(8)))
+    await assetManager.downloadAsset(TEST_ASSET_ID)
+    await assetManager.downloadAsset('another-asset')
+
+    await assetManager.clearAssetCache()
+
+    expect(cacheStorage.responses.size).toBe(0)
+  })
+
+  test('client cleanup removes expired binary entries', async () => {
+    const now = Date.now()
+    const cms = createVibeCMS({ projectId: TEST_PROJECT_ID, cache: { ttl: 1000 } })
+    mockFetch.mockResolvedValue(createMockAssetResponse(new ArrayBuffer(8)))
+    await cms.download_asset(TEST_ASSET_ID)
+
+    vi.spyOn(Date, 'now').mockReturnValue(now + 2000)
+    await cms.cleanupCache()
+
+    expect(cacheStorage.responses.size).toBe(0)
+  })
+
+  test('evicts the oldest asset and retries when the store is full', async () => {
+    await limitCacheStorage(2)
+    const now = Date.now()
+    mockFetch.mockImplementation(() => createMockAssetResponse(new ArrayBuffer(8)))
+
+    for (const [index, assetId] of ['first-asset', 'second-asset', 'third-asset'].entries()) {
+      vi.spyOn(Date, 'now').mockReturnValue(now + index)
+      await assetManager.downloadAsset(assetId)
+    }
+
+    const keys = await cache.assets!.keys()
+    expect(keys).toHaveLength(2)
+    expect(keys.some(key => key.includes('first-asset'))).toBe(false)
+    expect((await cache.usage()).evictions).toBe(1)
+  })
+
+  test('evicts expired assets before fresh ones', async () => {
+    await limitCacheStorage(2)
+    const now = Date.now()
+    mockFetch.mockImplementation(() => createMockAssetResponse(new ArrayBuffer(8)))
+    await assetManager.downloadAsset('first-asset')
+    await assetManager.downloadAsset('short-lived', { cacheTtl: 10 })
+
+    vi.spyOn(Date, 'now').mockReturnValue(now + 1000)
+    await assetManager.downloadAsset('third-asset')
+
+    const keys = await cache.assets!.keys()
+    expect(keys.some(key => key.includes('first-asset'))).toBe(true)
+    expect(keys.some(key => key.includes('short-lived'))).toBe(false)
+  })
+
+  test('keeps assets in storage when configured or without browser storage', () => {
+    expect(new BrowserCache({ assetStorage: 'storage' }).assets).toBeNull()
+    expect(new BrowserCache({ storage: 'memory' }).assets).toBeNull()
+    expect(new BrowserCache({ enabled: false }).assets).toBeNull()
+    expect(new BrowserCache({ storage: 'memory', assetStorage: 'cache-storage' }).assets).toBeInstanceOf(AssetCache)
+    expect(new BrowserCache({ storage: 'memory', assetStorage: new CacheStorageAssetStore(cacheStorage) }).assets).toBeInstanceOf(AssetCache)
+  })
+
+  test('falls back to storage when no binary store is available', () => {
+    vi.unstubAllGlobals()
+
+    expect(new BrowserCache().assets).toBeNull()
+  })
+
+  test('treats store failures as misses', async () => {
+    const store = new CacheStorageAssetStore({
+      open: () => Promise.reject(new Error('SecurityError')),
+    } as unknown as CacheStorage)
+    const assets = new AssetCache(store, 1000)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    await assets.set('vms@2:key', { data: new ArrayBuffer(1), contentType: 'image/png', contentLength: 1 })
+
+    expect(await assets.get('vms@2:key')).toBeNull()
+    expect(await assets.keys()).toEqual([])
+  })
+})
+
 describe('VibeCMSClient Asset Integration', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -402,6 +667,38 @@ describe('VibeCMSClient Asset Integration', () => {
     expect(mockFetch).toHaveBeenCalledTimes(2)
   })
 
+  test('middleware runs around asset downloads', async () => {
+    const cms = createVibeCMS({
+      projectId: TEST_PROJECT_ID,
+      baseUrl: TEST_BASE_URL,
+      middleware: [
+        async (request, next) => {
+          request.headers['X-Trace'] = 'config'
+          return next(request)
+        },
+      ],
+    })
+    cms.use(async (request, next) => {
+      request.headers['X-Runtime'] = 'runtime'
+      return next(request)
+    })
+
+    mockFetch.mockResolvedValueOnce(createMockAssetResponse(new ArrayBuffer(64)))
+
+    await cms.download_asset(TEST_ASSET_ID, { useCache: false })
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining(`/api/assets/${TEST_PROJECT_ID}/${TEST_ASSET_ID}`),
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'Accept': '*/*',
+          'X-Trace': 'config',
+          'X-Runtime': 'runtime',
+        }),
+      })
+    )
+  })
+
   test('locale changes do not affect asset URLs', () => {
     const cms = createVibeCMS({
       projectId: TEST_PROJECT_ID,
@@ -441,7 +738,7 @@ describe('Asset Cache Integration', () => {
       locale: 'en-US'
     })
 
-    expect(urlKey).toBe(`vms:${TEST_PROJECT_ID}:en-US:asset:asset-url:${TEST_ASSET_ID}`)
+    expect(urlKey).toBe(`vms@2:${TEST_PROJECT_ID}:en-US:asset:asset-url:${TEST_ASSET_ID}`)
 
     // Test asset download cache key with parameters
     const downloadKey = cache.generateKey({
@@ -453,7 +750,7 @@ describe('Asset Cache Integration', () => {
     })
 
     // Check the structure is correct, but not the exact hash since it depends on implementation
-    expect(downloadKey).toMatch(new RegExp(`^vms:${TEST_PROJECT_ID}:en-US:asset:asset-download:${TEST_ASSET_ID}:[a-z0-9]+$`))
+    expect(downloadKey).toMatch(new RegExp(`^vms@2:${TEST_PROJECT_ID}:en-US:asset:asset-download:${TEST_ASSET_ID}:[a-z0-9]+$`))
   })
 
   test('throws error for asset operations without asset ID', () => {
@@ -0,0 +1,254 @@
+/**
+ * Tests for authentication and credential-scoped caching.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createAuthMiddleware, getAuthScope } from '../src/core/auth.js'
+import { Fetcher } from '../src/core/fetcher.js'
+import { createVibeCMS } from '../src/index.js'
+import { AuthError, ValidationError } from '../src/types/config.js'
+import type { MiddlewareRequest } from '../src/types/middleware.js'
+import {
+  mockFetch,
+  TEST_PROJECT_ID,
+  createMockResponse,
+  createMockErrorResponse,
+  MOCK_PUBLIC_CONTENT_LIST_RESPONSE
+} from './setup.js'
+
+const sentHeaders = (call: number) => mockFetch.mock.calls[call]?.[1]?.headers as Record<string, string>
+
+describe('Authentication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('Credentials', () => {
+    test('sends a static API key', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ ok: true }))
+      const fetcher = new Fetcher('https://api.vibe-cms.com', { auth: { apiKey: 'key_123' } })
+
+      await fetcher.get('/api/test')
+
+      expect(sentHeaders(0)['X-API-Key']).toBe('key_123')
+      expect(sentHeaders(0)['Authorization']).toBeUndefined()
+    })
+
+    test('sends a static bearer token', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ ok: true }))
+      const fetcher = new Fetcher('https://api.vibe-cms.com', { auth: { token: 'tok_abc' } })
+
+      await fetcher.get('/api/test')
+
+      expect(sentHeaders(0)['Authorization']).toBe('Bearer tok_abc')
+    })
+
+    test('calls the token provider once and reuses its token', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ ok: true }))
+      const getToken = vi.fn().mockResolvedValue('tok_provided')
+      const fetcher = new Fetcher('https://api.vibe-cms.com', { auth: { getToken } })
+
+      await fetcher.get('/api/one')
+      await fetcher.get('/api/two')
+
+      expect(getToken).toHaveBeenCalledTimes(1)
+      expect(sentHeaders(1)['Authorization']).toBe('Bearer tok_provided')
+    })
+
+    test('attaches credentials after user middleware', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ ok: true }))
+      const seen: MiddlewareRequest[] = []
+      const fetcher = new Fetcher('https://api.vibe-cms.com', {
+        auth: { token: 'tok_abc' },
+        middleware: [async (request, next) => {
+          seen.push(request)
+          return next(request)
+        }],
+      })
+
+      await fetcher.get('/api/test')
+
+      expect(seen[0]?.headers['Authorization']).toBeUndefined()
+      expect(sentHeaders(0)['Authorization']).toBe('Bearer tok_abc')
+    })
+
+    test('attaches credentials to asset downloads', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'image/png' }),
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(4)),
+      } as Response)
+      const cms = createVibeCMS({ projectId: TEST_PROJECT_ID, auth: { apiKey: 'key_123' } })
+
+      await cms.download_asset('asset123', { useCache: false })
+
+      expect(sentHeaders(0)['X-API-Key']).toBe('key_123')
+    })
+
+    test('rejects with AuthError when the token provider fails', async () => {
+      const fetcher = new Fetcher('https://api.vibe-cms.com', {
+        auth: { getToken: () => Promise.reject(new Error('Session expired')) },
+      })
+
+      const error = await fetcher.get('/api/test').catch(e => e)
+
+      expect(error).toBeInstanceOf(AuthError)
+      expect(error.code).toBe('AUTH_ERROR')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Refresh on 401', () => {
+    test('refreshes the token and retries once', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockErrorResponse(401, 'Token expired'))
+        .mockResolvedValueOnce(createMockResponse({ ok: true }))
+      const getToken = vi.fn()
+        .mockResolvedValueOnce('tok_old')
+        .mockResolvedValueOnce('tok_new')
+      const fetcher = new Fetcher('https://api.vibe-cms.com', { auth: { getToken } })
+
+      const result = await fetcher.get('/api/test')
+
+      expect(result).toEqual({ ok: true })
+      expect(sentHeaders(0)['Authorization']).toBe('Bearer tok_old')
+      expect(sentHeaders(1)['Authorization']).toBe('Bearer tok_new')
+    })
+
+    test('uses the token returned by onUnauthorized', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockErrorResponse(401, 'Token expired'))
+        .mockResolvedValueOnce(createMockResponse({ ok: true }))
+      const onUnauthorized = vi.fn().mockResolvedValue('tok_refreshed')
+      const fetcher = new Fetcher('https://api.vibe-cms.com', {
+        auth: { token: 'tok_old', onUnauthorized },
+      })
+
+      await fetcher.get('/api/test')
+
+      expect(onUnauthorized).toHaveBeenCalledTimes(1)
+      expect(sentHeaders(1)['Authorization']).toBe('Bearer tok_refreshed')
+    })
+
+    test('shares one refresh between concurrent 401s', async () => {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+        const headers = init.headers as Record<string, string>
+        return headers['Authorization'] === 'Bearer tok_new'
+          ? createMockResponse({ ok: true })
+          : createMockErrorResponse(401, 'Token expired')
+      })
+      const onUnauthorized = vi.fn().mockResolvedValue('tok_new')
+      const fetcher = new Fetcher('https://api.vibe-cms.com', {
+        auth: { token: 'tok_old', onUnauthorized },
+      })
+
+      await Promise.all([fetcher.get('/api/one'), fetcher.get('/api/two')])
+
+      expect(onUnauthorized).toHaveBeenCalledTimes(1)
+    })
+
+    test('surfaces the 401 as AuthError when the token does not change', async () => {
+      mockFetch.mockResolvedValue(createMockErrorResponse(401, 'Invalid API key'))
+      const fetcher = new Fetcher('https://api.vibe-cms.com', { auth: { apiKey: 'key_bad' } })
+
+      const error = await fetcher.get('/api/test').catch(e => e)
+
+      expect(error).toBeInstanceOf(AuthError)
+      expect(error.status).toBe(401)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    test('leaves other statuses alone', async () => {
+      const onUnauthorized = vi.fn()
+      const middleware = createAuthMiddleware({ token: 'tok', onUnauthorized })
+      const next = vi.fn(() => createMockErrorResponse(403, 'Forbidden'))
+
+      const response = await middleware(
+        { url: 'https://api.vibe-cms.com/api/test', method: 'GET', headers: {}, init: {} },
+        next
+      )
+
+      expect(response.status).toBe(403)
+      expect(next).toHaveBeenCalledTimes(1)
+      expect(onUnauthorized).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Cache Scope', () => {
+    test('derives a scope without exposing the credential', () => {
+      const scope = getAuthScope({ apiKey: 'key_secret' })
+
+      expect(scope).toBeTruthy()
+      expect(scope).not.toContain('key_secret')
+      expect(getAuthScope({ apiKey: 'key_secret' })).toBe(scope)
+      expect(getAuthScope({ apiKey: 'key_other' })).not.toBe(scope)
+    })
+
+    test('prefers an explicit scope', () => {
+      expect(getAuthScope({ getToken: () => 'tok', scope: 'user-42' })).toBe('user-42')
+      expect(getAuthScope(undefined)).toBeUndefined()
+    })
+
+    test('requires a scope for token providers', () => {
+      expect(() => getAuthScope({ getToken: () => 'tok' })).toThrow(ValidationError)
+      expect(() => createVibeCMS({ projectId: TEST_PROJECT_ID, auth: { getToken: () => 'tok' } })).toThrow(ValidationError)
+    })
+
+    test('does not require a scope when caching is disabled', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const cms = createVibeCMS({ projectId: TEST_PROJECT_ID, auth: { getToken: () => 'tok' }, cache: { enabled: false } })
+
+      await cms.collection('blog-posts').first()
+
+      expect(sentHeaders(0)['Authorization']).toBe('Bearer tok')
+      await expect(cms.reconfigureCache({ enabled: true })).rejects.toThrow(ValidationError)
+      expect(cms.getConfig().cache.enabled).toBe(false)
+    })
+
+    test('caches content of different token users in separate partitions', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const alice = createVibeCMS({ projectId: TEST_PROJECT_ID, auth: { getToken: () => 'tok_alice', scope: 'alice' } })
+      const bob = createVibeCMS({ projectId: TEST_PROJECT_ID, auth: { getToken: () => 'tok_bob', scope: 'bob' } })
+
+      await alice.collection('blog-posts').first()
+      await bob.collection('blog-posts').first()
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(localStorage.getItem(`vms@2:${TEST_PROJECT_ID}:en-US:blog-posts:first:@alice`)).not.toBeNull()
+      expect(localStorage.getItem(`vms@2:${TEST_PROJECT_ID}:en-US:blog-posts:first:@bob`)).not.toBeNull()
+    })
+
+    test('caches authenticated content separately from public content', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const publicCms = createVibeCMS({ projectId: TEST_PROJECT_ID })
+      const privateCms = createVibeCMS({
+        projectId: TEST_PROJECT_ID,
+        auth: { token: 'tok_abc', scope: 'editor' },
+      })
+
+      await privateCms.collection('blog-posts').first()
+      await publicCms.collection('blog-posts').first()
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(localStorage.getItem(`vms@2:${TEST_PROJECT_ID}:en-US:blog-posts:first:@editor`)).not.toBeNull()
+      expect(localStorage.getItem(`vms@2:${TEST_PROJECT_ID}:en-US:blog-posts:first`)).not.toBeNull()
+    })
+
+    test('clearCache on a collection removes scoped keys', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const cms = createVibeCMS({ projectId: TEST_PROJECT_ID, auth: { token: 'tok', scope: 'editor' } })
+      const posts = cms.collection('blog-posts')
+
+      await posts.first()
+      await posts.clearCache()
+
+      expect(localStorage.getItem(`vms@2:${TEST_PROJECT_ID}:en-US:blog-posts:first:@editor`)).toBeNull()
+    })
+  })
+})
@@ -3,7 +3,12 @@
  */
 
 import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
-import { BrowserCache } from '../src/core/cache.js'
+import { BrowserCache, MemoryStorageAdapter, parseCacheKey } from '../src/core/cache.js'
+import { createAesGcmCodec, createLzCodec } from '../src/core/codecs.js'
+import { replaceEqualDeep } from '../src/utils/structural.js'
+import { Logger } from '../src/core/logger.js'
+import type { AssetCacheEntry, AssetStore, StorageAdapter } from '../src/types/cache.js'
+import { ValidationError } from '../src/types/config.js'
 
 describe('BrowserCache', () => {
   let cache: BrowserCache
@@ -138,6 +143,50 @@ describe('BrowserCache', () => {
     })
   })
 
+  describe('Revalidation Support', () => {
+    beforeEach(() => {
+      cache = new BrowserCache({ enabled: true, ttl: 60000, storage: 'localStorage' })
+    })
+
+    test('stores validators next to the data', async () => {
+      await cache.set('vms@2:key', 'value', undefined, { etag: '"v1"', lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT' })
+
+      const lookup = await cache.getEntry('vms@2:key')
+
+      expect(lookup?.stale).toBe(false)
+      expect(lookup?.entry.etag).toBe('"v1"')
+      expect(lookup?.entry.lastModified).toBe('Wed, 01 Jan 2025 00:00:00 GMT')
+    })
+
+    test('returns expired entries as stale when allowed', async () => {
+      const now = Date.now()
+      await cache.set('vms@2:key', 'value', 1000, { etag: '"v1"' })
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5000)
+
+      const lookup = await cache.getEntry('vms@2:key', { allowStale: true })
+
+      expect(lookup?.stale).toBe(true)
+      expect(lookup?.entry.data).toBe('value')
+      expect(localStorage.getItem('vms@2:key')).not.toBeNull()
+      expect(await cache.get('vms@2:key')).toBeNull()
+      expect(localStorage.getItem('vms@2:key')).toBeNull()
+    })
+
+    test('touch restarts the TTL and keeps validators', async () => {
+      const now = Date.now()
+      await cache.set('vms@2:key', 'value', 1000, { etag: '"v1"' })
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5000)
+
+      expect(await cache.touch('vms@2:key')).toBe(true)
+
+      const lookup = await cache.getEntry('vms@2:key')
+      expect(lookup?.stale).toBe(false)
+      expect(lookup?.entry.etag).toBe('"v1"')
+      expect(lookup?.entry.ttl).toBe(1000)
+      expect(await cache.touch('vms@2:missing')).toBe(false)
+    })
+  })
+
   describe('SessionStorage Cache', () => {
     beforeEach(() => {
       cache = new BrowserCache({
@@ -201,7 +250,7 @@ describe('BrowserCache', () => {
       const key2 = cache.generateKey(components)
 
       expect(key1).toBe(key2)
-      expect(key1).toBe('vms:test-project:en-US:blog-posts:first')
+      expect(key1).toBe('vms@2:test-project:en-US:blog-posts:first')
     })
 
     test('includes item ID in key when provided', () => {
@@ -214,7 +263,7 @@ describe('BrowserCache', () => {
 
       const key = cache.generateKey(components)
 
-      expect(key).toBe('vms:test-project:en-US:blog-posts:item:item123')
+      expect(key).toBe('vms@2:test-project:en-US:blog-posts:item:item123')
     })
 
     test('includes parameter hash when provided', () => {
@@ -227,7 +276,7 @@ describe('BrowserCache', () => {
 
       const key = cache.generateKey(components)
 
-      expect(key).toContain('vms:test-project:en-US:blog-posts:many:')
+      expect(key).toContain('vms@2:test-project:en-US:blog-posts:many:')
       expect(key.split(':').length).toBe(6) // Should have param hash
     })
 
@@ -263,9 +312,9 @@ describe('BrowserCache', () => {
       const keyFrFR = cache.generateKey({ ...baseComponents, locale: 'fr-FR' })
       const keyDefault = cache.generateKey(baseComponents) // Should use en-US default
 
-      expect(keyEnUS).toBe('vms:test-project:en-US:blog-posts:first')
-      expect(keyFrFR).toBe('vms:test-project:fr-FR:blog-posts:first')
-      expect(keyDefault).toBe('vms:test-project:en-US:blog-posts:first')
+      expect(keyEnUS).toBe('vms@2:test-project:en-US:blog-posts:first')
+      expect(keyFrFR).toBe('vms@2:test-project:fr-FR:blog-posts:first')
+      expect(keyDefault).toBe('vms@2:test-project:en-US:blog-posts:first')
       expect(keyEnUS).toBe(keyDefault)
       expect(keyEnUS).not.toBe(keyFrFR)
     })
@@ -319,8 +368,8 @@ describe('BrowserCache', () => {
       })
 
       // Add some entries
-      await shortTtlCache.set('vms:test:key1', 'value1')
-      await shortTtlCache.set('vms:test:key2', 'value2')
+      await shortTtlCache.set('vms@2:test:key1', 'value1')
+      await shortTtlCache.set('vms@2:test:key2', 'value2')
       
       // Wait for expiration
       await new Promise(resolve => setTimeout(resolve, 20))
@@ -344,15 +393,15 @@ describe('BrowserCache', () => {
       })
 
       vi.mocked(localStorage.key).mockImplementation((index: number) => {
-        const keys = ['vms:test:key1', 'other-app:key', 'vms:test:key2']
+        const keys = ['vms@2:test:key1', 'other-app:key', 'vms@2:test:key2']
         return keys[index] || null
       })
 
       await cache.cleanup()
 
       // Should only process VMS keys
-      expect(localStorage.getItem).toHaveBeenCalledWith('vms:test:key1')
-      expect(localStorage.getItem).toHaveBeenCalledWith('vms:test:key2')
+      expect(localStorage.getItem).toHaveBeenCalledWith('vms@2:test:key1')
+      expect(localStorage.getItem).toHaveBeenCalledWith('vms@2:test:key2')
       expect(localStorage.getItem).not.toHaveBeenCalledWith('other-app:key')
 
       // Restore original implementations
@@ -363,6 +412,786 @@ describe('BrowserCache', () => {
     })
   })
 
+  describe('Custom Storage', () => {
+    test('uses memory storage without touching browser storage', async () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      cache = new BrowserCache({ storage: 'memory' })
+
+      await cache.set('vms@2:test:key', { title: 'Memory' })
+
+      expect(await cache.get('vms@2:test:key')).toEqual({ title: 'Memory' })
+      expect(localStorage.setItem).not.toHaveBeenCalled()
+      expect(consoleSpy).not.toHaveBeenCalled()
+    })
+
+    test('uses a provided adapter instance', async () => {
+      const adapter = new MemoryStorageAdapter()
+      cache = new BrowserCache({ storage: adapter })
+
+      await cache.set('vms@2:test:key', 'value')
+
+      expect(adapter.getItem('vms@2:test:key')).toContain('"value"')
+      expect(localStorage.setItem).not.toHaveBeenCalled()
+    })
+
+    test('works with a custom adapter implementation', async () => {
+      const items = new Map<string, string>()
+      const adapter: StorageAdapter = {
+        getItem: vi.fn((key: string) => items.get(key) ?? null),
+        setItem: vi.fn((key: string, value: string) => void items.set(key, value)),
+        removeItem: vi.fn((key: string) => void items.delete(key)),
+        clear: vi.fn(() => items.clear()),
+        keys: vi.fn(() => Array.from(items.keys())),
+      }
+      cache = new BrowserCache({ storage: adapter })
+
+      await cache.set('vms@2:test:one', 1)
+      await cache.clear()
+
+      expect(adapter.setItem).toHaveBeenCalledWith('vms@2:test:one', expect.any(String))
+      expect(adapter.clear).toHaveBeenCalled()
+    })
+
+    test('lists only VMS keys', async () => {
+      const adapter = new MemoryStorageAdapter()
+      adapter.setItem('other:key', 'value')
+      cache = new BrowserCache({ storage: adapter })
+
+      await cache.set('vms@2:test:key', 'value')
+
+      expect(await cache.keys()).toEqual(['vms@2:test:key'])
+    })
+  })
+
+  describe('LRU Eviction', () => {
+    const quotaError = () => new DOMException('The quota has been exceeded.', 'QuotaExceededError')
+
+    test('evicts the least recently used entry beyond maxEntries', async () => {
+      cache = new BrowserCache({ storage: 'memory', maxEntries: 2 })
+
+      await cache.set('vms@2:a', 'a')
+      await cache.set('vms@2:b', 'b')
+      await cache.get('vms@2:a')
+      await cache.set('vms@2:c', 'c')
+
+      expect(await cache.keys()).toEqual(['vms@2:a', 'vms@2:c'])
+      expect((await cache.usage()).evictions).toBe(1)
+    })
+
+    test('evicts to stay within maxBytes', async () => {
+      cache = new BrowserCache({ storage: 'memory', maxBytes: 400 })
+
+      await cache.set('vms@2:a', 'x'.repeat(50))
+      await cache.set('vms@2:b', 'x'.repeat(50))
+
+      const usage = await cache.usage()
+      expect(await cache.keys()).toEqual(['vms@2:b'])
+      expect(usage.bytes).toBeLessThanOrEqual(400)
+      expect(usage.entries).toBe(1)
+    })
+
+    test('does not cache entries larger than maxBytes', async () => {
+      const handler = vi.fn()
+      const consoleSpy = vi.spyOn(console, 'warn')
+      cache = new BrowserCache({ storage: 'memory', maxBytes: 100 }, { logger: new Logger({ level: 'warn', handler }) })
+
+      await cache.set('vms@2:big', 'x'.repeat(100))
+
+      expect(await cache.get('vms@2:big')).toBeNull()
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+        event: 'cache.too_large',
+        data: expect.objectContaining({ key: 'vms@2:big', maxBytes: 100 }),
+      }))
+      expect(consoleSpy).not.toHaveBeenCalled()
+    })
+
+    test('drops the previous value when a new one is too large', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      cache = new BrowserCache({ storage: 'memory', maxBytes: 200 })
+      await cache.set('vms@2:key', ['old'])
+
+      await cache.set('vms@2:key', ['x'.repeat(100)])
+
+      expect(await cache.get('vms@2:key')).toBeNull()
+      expect((await cache.usage()).entries).toBe(0)
+    })
+
+    test('drops the previous value when writing a new one fails', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      cache = new BrowserCache({ enabled: true, ttl: 60000, storage: 'localStorage' })
+      await cache.set('vms@2:key', ['old'])
+      vi.mocked(localStorage.setItem).mockImplementation(() => {
+        throw quotaError()
+      })
+
+      await cache.set('vms@2:key', ['new'])
+
+      expect(await cache.get('vms@2:key')).toBeNull()
+      expect(localStorage.getItem('vms@2:key')).toBeNull()
+    })
+
+    test('overwriting an entry does not evict others', async () => {
+      cache = new BrowserCache({ storage: 'memory', maxEntries: 2 })
+
+      await cache.set('vms@2:a', 'a')
+      await cache.set('vms@2:b', 'b')
+      await cache.set('vms@2:b', 'b2')
+
+      expect(await cache.keys()).toEqual(['vms@2:a', 'vms@2:b'])
+    })
+
+    test('evicts and retries when storage is full', async () => {
+      cache = new BrowserCache({ enabled: true, ttl: 60000, storage: 'localStorage' })
+      await cache.set('vms@2:old', 'old')
+      await cache.set('vms@2:recent', 'recent')
+      vi.mocked(localStorage.setItem).mockImplementationOnce(() => {
+        throw quotaError()
+      })
+
+      await cache.set('vms@2:new', 'new')
+
+      expect(await cache.get('vms@2:new')).toBe('new')
+      expect(await cache.get('vms@2:old')).toBeNull()
+      expect(await cache.get('vms@2:recent')).toBe('recent')
+      expect((await cache.usage()).evictions).toBe(1)
+    })
+
+    test('gives up when nothing is left to evict', async () => {
+      const handler = vi.fn()
+      cache = new BrowserCache(
+        { enabled: true, ttl: 60000, storage: 'localStorage' },
+        { logger: new Logger({ level: 'warn', handler }) }
+      )
+      vi.mocked(localStorage.setItem).mockImplementation(() => {
+        throw quotaError()
+      })
+
+      await expect(cache.set('vms@2:new', 'new')).resolves.toBeUndefined()
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ event: 'cache.write_failed' }))
+    })
+
+    test('orders existing entries by age', async () => {
+      const now = Date.now()
+      localStorage.setItem('vms@2:newer', JSON.stringify({ data: 1, timestamp: now, ttl: 60000 }))
+      localStorage.setItem('vms@2:older', JSON.stringify({ data: 2, timestamp: now - 1000, ttl: 60000 }))
+      cache = new BrowserCache({ storage: 'localStorage', maxEntries: 2 })
+
+      await cache.set('vms@2:third', 3)
+
+      expect(await cache.keys()).toEqual(['vms@2:newer', 'vms@2:third'])
+    })
+  })
+
+  describe('Memory Tier', () => {
+    const parses = () => vi.spyOn(JSON, 'parse')
+
+    test('serves hits without decoding and writes through to storage', async () => {
+      const storage = new MemoryStorageAdapter()
+      const cache = new BrowserCache({ storage })
+      const data = { title: 'Decoded' }
+      await cache.set('vms@2:proj:en-US:posts:first', data)
+      const parse = parses()
+
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toBe(data)
+      expect(parse).not.toHaveBeenCalled()
+      expect(storage.getItem('vms@2:proj:en-US:posts:first')).toContain('Decoded')
+    })
+
+    test('promotes storage hits', async () => {
+      const storage = new MemoryStorageAdapter()
+      await new BrowserCache({ storage }).set('vms@2:proj:en-US:posts:first', 'stored')
+      const cache = new BrowserCache({ storage })
+      const parse = parses()
+
+      await cache.get('vms@2:proj:en-US:posts:first')
+      const decoded = parse.mock.calls.length
+      await cache.get('vms@2:proj:en-US:posts:first')
+
+      expect(parse).toHaveBeenCalledTimes(decoded)
+      expect((await cache.inspect()).memory.entries).toBe(1)
+    })
+
+    test('stays within its own budget', async () => {
+      const cache = new BrowserCache({ storage: 'memory', memoryCache: { maxEntries: 1 } })
+      await cache.set('vms@2:proj:en-US:posts:first', 'a')
+      await cache.set('vms@2:proj:en-US:posts:many', 'b')
+      const parse = parses()
+
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toBe('a')
+      expect(parse).toHaveBeenCalledTimes(1)
+      expect((await cache.inspect()).memory.entries).toBe(1)
+      expect(await cache.keys()).toHaveLength(2)
+    })
+
+    test('can be turned off', async () => {
+      const cache = new BrowserCache({ storage: 'memory', memoryCache: false })
+      await cache.set('vms@2:proj:en-US:posts:first', { title: 'Copy' })
+      const parse = parses()
+
+      await cache.get('vms@2:proj:en-US:posts:first')
+
+      expect(parse).toHaveBeenCalledTimes(1)
+    })
+
+    test('keeps unchanged items when content is refreshed', async () => {
+      const cache = new BrowserCache({ storage: 'memory' })
+      await cache.set('vms@2:proj:en-US:posts:many', [{ id: '1', title: 'Same' }, { id: '2', title: 'Old' }])
+      const before = await cache.get<Array<{ id: string; title: string }>>('vms@2:proj:en-US:posts:many')
+
+      await cache.set('vms@2:proj:en-US:posts:many', [{ id: '1', title: 'Same' }, { id: '2', title: 'New' }])
+      const after = await cache.get<Array<{ id: string; title: string }>>('vms@2:proj:en-US:posts:many')
+
+      expect(after).not.toBe(before)
+      expect(after?.[0]).toBe(before?.[0])
+      expect(after?.[1]).toEqual({ id: '2', title: 'New' })
+    })
+
+    test('drops decoded entries when storage entries are removed', async () => {
+      const cache = new BrowserCache({ storage: 'memory' })
+      await cache.set('vms@2:proj:en-US:posts:first', 'a', undefined, { tags: ['collection:posts'] })
+
+      await cache.invalidate(['collection:posts'])
+
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toBeNull()
+      expect((await cache.inspect()).memory.entries).toBe(0)
+    })
+
+    test('replaceEqualDeep shares equal structure', () => {
+      const previous = { list: [{ id: 1 }, { id: 2 }], meta: { total: 2 } }
+
+      expect(replaceEqualDeep(previous, JSON.parse(JSON.stringify(previous)))).toBe(previous)
+
+      const next = replaceEqualDeep(previous, { list: [{ id: 1 }, { id: 3 }], meta: { total: 2 } })
+      expect(next).not.toBe(previous)
+      expect(next.list[0]).toBe(previous.list[0])
+      expect(next.meta).toBe(previous.meta)
+      expect(next.list[1]).toEqual({ id: 3 })
+
+      expect(replaceEqualDeep({ a: 1 }, { a: 1, b: 2 })).toEqual({ a: 1, b: 2 })
+      expect(replaceEqualDeep([1, 2], [1])).toEqual([1])
+    })
+  })
+
+  describe('Inspection', () => {
+    test('parses cache keys', () => {
+      expect(parseCacheKey('vms@2:proj:fr-FR:blog_posts:item:post-1:@preview')).toEqual({
+        kind: 'content',
+        projectId: 'proj',
+        locale: 'fr-FR',
+        collection: 'blog_posts',
+        queryType: 'item',
+        itemId: 'post-1',
+        scope: 'preview',
+      })
+      expect(parseCacheKey('vms@2:proj:en-US:posts:many:abc123')).toMatchObject({ queryType: 'many', paramHash: 'abc123' })
+      expect(parseCacheKey('vms@2:proj:en-US:asset:asset-download:img:h1')).toEqual({
+        kind: 'asset',
+        projectId: 'proj',
+        locale: 'en-US',
+        assetId: 'img',
+        queryType: 'asset-download',
+        paramHash: 'h1',
+      })
+      expect(parseCacheKey('vms@2:proj:en-US:posts:unknown')).toBeNull()
+      expect(parseCacheKey('other:key')).toBeNull()
+    })
+
+    test('round-trips generated keys', () => {
+      const cache = new BrowserCache({ storage: 'memory' }, { scope: 'user:1' })
+      const key = cache.generateKey({
+        projectId: 'proj',
+        collectionSlug: 'posts',
+        queryType: 'many',
+        params: { limit: 5 },
+        locale: 'de-DE',
+      })
+
+      expect(parseCacheKey(key)).toMatchObject({ collection: 'posts', locale: 'de-DE', scope: 'user:1' })
+    })
+
+    test('lists entries with age, remaining TTL and totals', async () => {
+      const cache = new BrowserCache({ storage: 'memory', ttl: 60000 })
+      const now = Date.now()
+      vi.spyOn(Date, 'now').mockReturnValue(now)
+      await cache.set('vms@2:proj:en-US:posts:first', { title: 'Hello' }, undefined, { tags: ['collection:posts'] })
+      await cache.set('vms@2:proj:fr-FR:posts:many', [1, 2], 1000)
+      await cache.set('vms@2:proj:fr-FR:asset:asset-url:img', 'https://cdn/img')
+      await cache.set('vms@2:other:en-US:posts:first', 'other project')
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5000)
+      const inspection = await cache.inspect('proj')
+
+      expect(inspection.entries).toHaveLength(3)
+      expect(inspection.entries.find(entry => entry.queryType === 'first')).toMatchObject({
+        kind: 'content',
+        collection: 'posts',
+        locale: 'en-US',
+        tier: 'storage',
+        age: 5000,
+        ttl: 60000,
+        remainingTtl: 55000,
+        expired: false,
+        tags: ['collection:posts'],
+      })
+      expect(inspection.entries.find(entry => entry.queryType === 'many')).toMatchObject({ remainingTtl: 0, expired: true })
+      expect(inspection.byLocale['fr-FR']?.entries).toBe(2)
+      expect(inspection.byKind.asset.entries).toBe(1)
+      expect(inspection.byKind.content.entries).toBe(2)
+      expect(inspection.totals.bytes).toBe(inspection.entries.reduce((sum, entry) => sum + entry.bytes, 0))
+      expect((await cache.inspect()).entries).toHaveLength(4)
+    })
+
+    test('counts hits, misses and evictions per collection', async () => {
+      const cache = new BrowserCache({ storage: 'memory', maxEntries: 2 })
+      await cache.set('vms@2:proj:en-US:posts:first', 'a')
+      await cache.get('vms@2:proj:en-US:posts:first')
+      await cache.get('vms@2:proj:en-US:posts:many')
+      await cache.get('vms@2:proj:en-US:asset:asset-url:img')
+      await cache.set('vms@2:proj:en-US:pages:first', 'b')
+      await cache.set('vms@2:proj:en-US:pages:many', 'c')
+
+      const { counters, collections, assets } = await cache.inspect()
+
+      expect(collections['posts']).toEqual({ hits: 1, misses: 1, evictions: 1 })
+      expect(collections['pages']).toBeUndefined()
+      expect(assets).toEqual({ hits: 0, misses: 1, evictions: 0 })
+      expect(counters).toEqual({ hits: 1, misses: 2, evictions: 1 })
+    })
+
+    test('includes the binary asset tier', async () => {
+      const assets = new Map<string, AssetCacheEntry>()
+      const store: AssetStore = {
+        get: async key => assets.get(key) ?? null,
+        put: async (key, entry) => void assets.set(key, entry),
+        delete: async key => void assets.delete(key),
+        keys: async () => Array.from(assets.keys()),
+      }
+      const cache = new BrowserCache({ storage: 'memory', assetStorage: store })
+      await cache.assets?.set('vms@2:proj:en-US:asset:asset-download:img', {
+        data: new ArrayBuffer(64),
+        contentType: 'image/png',
+        contentLength: 64,
+      })
+      await cache.assets?.get('vms@2:proj:en-US:asset:asset-download:img')
+
+      const inspection = await cache.inspect()
+
+      expect(inspection.entries).toEqual([
+        expect.objectContaining({ kind: 'asset', tier: 'binary', bytes: 64, assetId: 'img' }),
+      ])
+      expect(inspection.assets.hits).toBe(1)
+    })
+  })
+
+  describe('Reconfiguration', () => {
+    const storedKeys = () => Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i) ?? '')
+      .filter(key => key.startsWith('vms@2:'))
+
+    test('applies TTL and strategy changes in place', async () => {
+      const cache = new BrowserCache({ storage: 'memory', ttl: 60000 })
+      await cache.set('vms@2:proj:en-US:posts:first', 'kept')
+
+      await cache.reconfigure({ storage: 'memory', ttl: 1000, strategy: 'network-first' })
+      await cache.set('vms@2:proj:en-US:posts:many', 'short')
+
+      expect(cache.strategy).toBe('network-first')
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toBe('kept')
+      expect((await cache.getEntry('vms@2:proj:en-US:posts:many'))?.entry.ttl).toBe(1000)
+    })
+
+    test('moves entries to the new storage when migrating', async () => {
+      const cache = new BrowserCache({ storage: 'localStorage', assetStorage: 'storage' })
+      await cache.set('vms@2:proj:en-US:posts:first', 'moved', 60000, { tags: ['collection:posts'] })
+      const { timestamp } = (await cache.getEntry('vms@2:proj:en-US:posts:first'))!.entry
+
+      await cache.reconfigure({ storage: 'memory' }, { migrate: true })
+
+      expect(storedKeys()).toEqual([])
+      const lookup = await cache.getEntry('vms@2:proj:en-US:posts:first')
+      expect(lookup?.entry).toMatchObject({ data: 'moved', timestamp, tags: ['collection:posts'] })
+      expect(await cache.invalidate(['collection:posts'])).toBe(1)
+    })
+
+    test('leaves entries in the old storage without migrating', async () => {
+      const cache = new BrowserCache({ storage: 'localStorage', assetStorage: 'storage' })
+      await cache.set('vms@2:proj:en-US:posts:first', 'left')
+
+      await cache.reconfigure({ storage: 'memory' })
+
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toBeNull()
+      expect(storedKeys()).toEqual(['vms@2:proj:en-US:posts:first'])
+    })
+
+    test('toggles caching', async () => {
+      const cache = new BrowserCache({ storage: 'localStorage', assetStorage: 'storage' })
+      await cache.set('vms@2:proj:en-US:posts:first', 'stored')
+
+      await cache.reconfigure({ storage: 'localStorage', enabled: false })
+      await cache.set('vms@2:proj:en-US:posts:many', 'ignored')
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toBeNull()
+
+      await cache.reconfigure({ storage: 'localStorage', assetStorage: 'storage' })
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toBe('stored')
+      expect(await cache.get('vms@2:proj:en-US:posts:many')).toBeNull()
+    })
+  })
+
+  describe('Dehydrate and Hydrate', () => {
+    test('round-trips touched entries with their timestamps', async () => {
+      const server = new BrowserCache({ storage: 'memory' })
+      await server.set('vms@2:proj:fr-FR:posts:first', { title: 'Bonjour' }, 60000, { etag: '"v1"', tags: ['collection:posts'] })
+      const timestamp = Date.now() - 1000
+      vi.spyOn(Date, 'now').mockReturnValueOnce(timestamp)
+      await server.set('vms@2:proj:en-US:posts:many', [1, 2])
+
+      const state = JSON.parse(JSON.stringify(await server.dehydrate()))
+      const browser = new BrowserCache({ storage: 'memory' })
+
+      expect(await browser.hydrate(state)).toBe(2)
+      const lookup = await browser.getEntry('vms@2:proj:fr-FR:posts:first')
+      expect(lookup?.entry).toMatchObject({ data: { title: 'Bonjour' }, ttl: 60000, etag: '"v1"', tags: ['collection:posts'] })
+      expect((await browser.getEntry('vms@2:proj:en-US:posts:many'))?.entry.timestamp).toBe(timestamp)
+    })
+
+    test('only includes entries touched since the last dehydrate', async () => {
+      const storage = new MemoryStorageAdapter()
+      await new BrowserCache({ storage }).set('vms@2:proj:en-US:posts:first', 'earlier')
+      const cache = new BrowserCache({ storage })
+
+      await cache.set('vms@2:proj:en-US:posts:many', 'written')
+      await cache.set('vms@2:proj:en-US:asset:asset-download:img', 'bytes')
+      expect(Object.keys((await cache.dehydrate()).entries)).toEqual(['vms@2:proj:en-US:posts:many'])
+
+      await cache.get('vms@2:proj:en-US:posts:first')
+      expect(Object.keys((await cache.dehydrate()).entries)).toEqual(['vms@2:proj:en-US:posts:first'])
+    })
+
+    test('keeps newer entries and accepts JSON strings', async () => {
+      const cache = new BrowserCache({ storage: 'memory' })
+      await cache.set('vms@2:proj:en-US:posts:first', 'newer')
+      const state = JSON.stringify({
+        version: 1,
+        entries: {
+          'vms@2:proj:en-US:posts:first': { data: 'older', timestamp: Date.now() - 5000 },
+          'vms@2:proj:en-US:posts:all': { data: 'seeded', timestamp: Date.now() },
+        },
+      })
+
+      expect(await cache.hydrate(state)).toBe(1)
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toBe('newer')
+      expect(await cache.get('vms@2:proj:en-US:posts:all')).toBe('seeded')
+    })
+
+    test('reads wait for hydration to finish', async () => {
+      const cache = new BrowserCache({ storage: 'memory' })
+
+      const hydrating = cache.hydrate({ version: 1, entries: { 'vms@2:proj:en-US:posts:first': { data: 'seeded', timestamp: Date.now() } } })
+      const read = cache.get('vms@2:proj:en-US:posts:first')
+
+      expect(await read).toBe('seeded')
+      await hydrating
+    })
+
+    test('rejects invalid state', async () => {
+      const cache = new BrowserCache({ storage: 'memory' })
+
+      await expect(cache.hydrate('not json')).rejects.toThrow('VMS SDK: Invalid dehydrated cache state')
+      await expect(cache.hydrate({ version: 2, entries: {} } as never)).rejects.toThrow(ValidationError)
+    })
+  })
+
+  describe('Codecs', () => {
+    const key = 'vms@2:proj:en-US:posts:first'
+    const generateKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+
+    test('stores entries compressed and encrypted', async () => {
+      const codecs = [createLzCodec(), createAesGcmCodec(await generateKey())]
+      const cache = new BrowserCache({ storage: 'localStorage', codecs, memoryCache: false })
+
+      await cache.set(key, { title: 'Draft title' }, 60000, { etag: '"v1"' })
+
+      const stored = localStorage.getItem(key)!
+      expect(stored).not.toContain('Draft title')
+      expect(stored.startsWith('\u0001lz,aes-gcm\u0001')).toBe(true)
+      expect((await cache.getEntry(key))?.entry).toMatchObject({ data: { title: 'Draft title' }, etag: '"v1"' })
+    })
+
+    test('treats undecryptable entries as misses', async () => {
+      const storage = new MemoryStorageAdapter()
+      await new BrowserCache({ storage, codecs: [createAesGcmCodec(await generateKey())] }).set(key, 'secret')
+      const cache = new BrowserCache({ storage, codecs: [createAesGcmCodec(await generateKey())] })
+
+      expect(await cache.get(key)).toBeNull()
+      expect(storage.getItem(key)).toBeNull()
+    })
+
+    test('treats entries needing a missing codec as misses', async () => {
+      const storage = new MemoryStorageAdapter()
+      await new BrowserCache({ storage, codecs: [createLzCodec()] }).set(key, 'compressed')
+
+      expect(await new BrowserCache({ storage }).get(key)).toBeNull()
+    })
+
+    test('reads plain entries written without codecs', async () => {
+      const storage = new MemoryStorageAdapter()
+      await new BrowserCache({ storage }).set(key, 'plain')
+
+      expect(await new BrowserCache({ storage, codecs: [createLzCodec()] }).get(key)).toBe('plain')
+    })
+
+    test('decodes entries for tags, inspection and dehydration', async () => {
+      const cache = new BrowserCache({ storage: 'memory', codecs: [createLzCodec()] })
+      await cache.set(key, ['a', 'b'], 60000, { tags: ['collection:posts'] })
+
+      expect((await cache.dehydrate()).entries[key]).toMatchObject({ data: ['a', 'b'], tags: ['collection:posts'] })
+      expect((await cache.inspect()).entries).toEqual([expect.objectContaining({ key, tags: ['collection:posts'] })])
+      expect(await cache.invalidate(['collection:posts'])).toBe(1)
+    })
+
+    test('re-encodes entries when migrating to new codecs', async () => {
+      const cache = new BrowserCache({ storage: 'localStorage', assetStorage: 'storage', codecs: [createLzCodec()] })
+      await cache.set(key, 'moved')
+
+      await cache.reconfigure({ storage: 'memory', codecs: [createAesGcmCodec(await generateKey())] }, { migrate: true })
+
+      expect(await cache.get(key)).toBe('moved')
+    })
+  })
+
+  describe('Cache Namespaces', () => {
+    const entry = (data: unknown) => JSON.stringify({ data, timestamp: Date.now(), ttl: 60000 })
+
+    test('prefixes keys with the format version and cacheVersion', () => {
+      const components = { projectId: 'proj', collectionSlug: 'posts', queryType: 'first' as const }
+
+      expect(new BrowserCache({ storage: 'memory' }).generateKey(components)).toBe('vms@2:proj:en-US:posts:first')
+      const versioned = new BrowserCache({ storage: 'memory', cacheVersion: 'blog v3' })
+      expect(versioned.namespace).toBe('vms@2.blog%20v3')
+      expect(versioned.generateKey(components)).toBe('vms@2.blog%20v3:proj:en-US:posts:first')
+      expect(parseCacheKey('vms@2.blog%20v3:proj:en-US:posts:first')).toMatchObject({ collection: 'posts', queryType: 'first' })
+    })
+
+    test('purges entries from older namespaces on startup', async () => {
+      localStorage.setItem('vms:proj:en-US:posts:first', entry('legacy'))
+      localStorage.setItem('vms@1:proj:en-US:posts:first', entry('older format'))
+      localStorage.setItem('vms@2.v1:proj:en-US:posts:first', entry('older content model'))
+      localStorage.setItem('vms@2.v2:proj:en-US:posts:first', entry('current'))
+      localStorage.setItem('other-app:key', 'kept')
+
+      const cache = new BrowserCache({ storage: 'localStorage', cacheVersion: 'v2' }, { projectId: 'proj' })
+
+      expect(await cache.keys()).toEqual(['vms@2.v2:proj:en-US:posts:first'])
+      expect(localStorage.getItem('vms:proj:en-US:posts:first')).toBeNull()
+      expect(localStorage.getItem('vms@1:proj:en-US:posts:first')).toBeNull()
+      expect(localStorage.getItem('vms@2.v1:proj:en-US:posts:first')).toBeNull()
+      expect(localStorage.getItem('other-app:key')).toBe('kept')
+      expect(await cache.get('vms@2.v2:proj:en-US:posts:first')).toBe('current')
+    })
+
+    test('keeps entries of other projects and newer SDK versions', async () => {
+      localStorage.setItem('vms@2:other:en-US:posts:first', entry('other project'))
+      localStorage.setItem('vms@2.v1:other:en-US:posts:first', entry('other project, own cacheVersion'))
+      localStorage.setItem('vms@3:proj:en-US:posts:first', entry('newer format'))
+      localStorage.setItem('vms@2:proj:en-US:posts:first', entry('previous content model'))
+
+      const cache = new BrowserCache({ storage: 'localStorage', cacheVersion: 'v2' }, { projectId: 'proj' })
+      await cache.keys()
+
+      expect(localStorage.getItem('vms@2:other:en-US:posts:first')).not.toBeNull()
+      expect(localStorage.getItem('vms@2.v1:other:en-US:posts:first')).not.toBeNull()
+      expect(localStorage.getItem('vms@3:proj:en-US:posts:first')).not.toBeNull()
+      expect(localStorage.getItem('vms@2:proj:en-US:posts:first')).toBeNull()
+      expect(await new BrowserCache({ storage: 'localStorage' }).purge()).toBe(0)
+    })
+
+    test('purges the binary asset tier', async () => {
+      const assets = new Map<string, AssetCacheEntry>()
+      const store: AssetStore = {
+        get: async key => assets.get(key) ?? null,
+        put: async (key, entry) => void assets.set(key, entry),
+        delete: async key => void assets.delete(key),
+        keys: async () => Array.from(assets.keys()),
+      }
+      const previous = new BrowserCache({ storage: 'memory', assetStorage: store, cacheVersion: 'v1' })
+      await previous.assets?.set('vms@2.v1:proj:en-US:asset:asset-download:img', { data: new ArrayBuffer(4), contentType: 'image/png' })
+
+      const cache = new BrowserCache({ storage: 'memory', assetStorage: store, cacheVersion: 'v2' }, { projectId: 'proj' })
+      await cache.keys()
+
+      expect(Array.from(assets.keys())).toEqual([])
+      expect(await cache.purge()).toBe(0)
+    })
+
+    test('switches namespace when cacheVersion is reconfigured', async () => {
+      const cache = new BrowserCache({ storage: 'localStorage', cacheVersion: 'v1' }, { projectId: 'proj' })
+      await cache.set(cache.generateKey({ projectId: 'proj', collectionSlug: 'posts', queryType: 'first' }), 'v1 shape')
+
+      await cache.reconfigure({ storage: 'localStorage', cacheVersion: 'v2' })
+
+      expect(await cache.keys()).toEqual([])
+      expect(localStorage.getItem('vms@2.v1:proj:en-US:posts:first')).toBeNull()
+      expect(await cache.get(cache.generateKey({ projectId: 'proj', collectionSlug: 'posts', queryType: 'first' }))).toBeNull()
+    })
+
+    test('skips dehydrated entries from another namespace', async () => {
+      const cache = new BrowserCache({ storage: 'memory', cacheVersion: 'v2' })
+
+      const written = await cache.hydrate({
+        version: 1,
+        entries: {
+          'vms@2.v1:proj:en-US:posts:first': { data: 'stale', timestamp: Date.now() },
+          'vms@2.v2:proj:en-US:posts:first': { data: 'fresh', timestamp: Date.now() },
+        },
+      })
+
+      expect(written).toBe(1)
+      expect(await cache.keys()).toEqual(['vms@2.v2:proj:en-US:posts:first'])
+    })
+  })
+
+  describe('Cross-Tab Sync', () => {
+    /**
+     * In-process BroadcastChannel standing in for other tabs.
+     */
+    class FakeBroadcastChannel {
+      static open: FakeBroadcastChannel[] = []
+      onmessage: ((event: { data: unknown }) => void) | null = null
+
+      constructor(readonly name: string) {
+        FakeBroadcastChannel.open.push(this)
+      }
+
+      postMessage(data: unknown) {
+        for (const channel of FakeBroadcastChannel.open) {
+          if (channel !== this && channel.name === this.name) {
+            queueMicrotask(() => channel.onmessage?.({ data }))
+          }
+        }
+      }
+
+      close() {
+        FakeBroadcastChannel.open = FakeBroadcastChannel.open.filter(channel => channel !== this)
+      }
+    }
+
+    beforeEach(() => {
+      FakeBroadcastChannel.open = []
+      vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel)
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    test('tab-private storage drops entries written in another tab', async () => {
+      const onSync = vi.fn()
+      const tabA = new BrowserCache({ storage: 'memory' })
+      const tabB = new BrowserCache({ storage: 'memory' }, { onSync })
+      await tabB.set('vms@2:proj:en-US:posts:first', 'old')
+
+      await tabA.set('vms@2:proj:en-US:posts:first', 'new')
+
+      await vi.waitFor(() => expect(onSync).toHaveBeenCalledWith({ type: 'set', keys: ['vms@2:proj:en-US:posts:first'] }))
+      expect(await tabB.get('vms@2:proj:en-US:posts:first')).toBeNull()
+    })
+
+    test('shared storage keeps entries written in another tab', async () => {
+      const onSync = vi.fn()
+      const tabA = new BrowserCache({ storage: 'localStorage' })
+      const tabB = new BrowserCache({ storage: 'localStorage' }, { onSync })
+
+      await tabA.set('vms@2:proj:en-US:posts:first', 'new')
+
+      await vi.waitFor(() => expect(onSync).toHaveBeenCalled())
+      expect(await tabB.get('vms@2:proj:en-US:posts:first')).toBe('new')
+    })
+
+    test('shared storage drops decoded copies changed in another tab', async () => {
+      const onSync = vi.fn()
+      const tabA = new BrowserCache({ storage: 'localStorage' })
+      const tabB = new BrowserCache({ storage: 'localStorage' }, { onSync })
+      await tabB.set('vms@2:proj:en-US:posts:first', 'old')
+
+      await tabA.set('vms@2:proj:en-US:posts:first', 'new')
+
+      await vi.waitFor(() => expect(onSync).toHaveBeenCalled())
+      expect(await tabB.get('vms@2:proj:en-US:posts:first')).toBe('new')
+    })
+
+    test('propagates clear and invalidation', async () => {
+      const onSync = vi.fn()
+      const tabA = new BrowserCache({ storage: 'memory' })
+      const tabB = new BrowserCache({ storage: 'memory' }, { onSync })
+      await tabB.set('vms@2:a', 'a', undefined, { tags: ['collection:posts'] })
+      await tabB.set('vms@2:b', 'b', undefined, { tags: ['collection:pages'] })
+
+      await tabA.invalidate(['collection:posts'])
+      await vi.waitFor(() => expect(onSync).toHaveBeenCalledWith(expect.objectContaining({ type: 'invalidate' })))
+      expect(await tabB.keys()).toEqual(['vms@2:b'])
+
+      await tabA.clear()
+      await vi.waitFor(() => expect(onSync).toHaveBeenCalledWith({ type: 'clear' }))
+      expect(await tabB.keys()).toEqual([])
+    })
+
+    test('stops syncing after destroy', async () => {
+      const onSync = vi.fn()
+      const tabA = new BrowserCache({ storage: 'memory' })
+      const tabB = new BrowserCache({ storage: 'memory' }, { onSync })
+
+      tabB.destroy()
+      await tabA.clear()
+      await new Promise(resolve => setTimeout(resolve, 0))
+
+      expect(onSync).not.toHaveBeenCalled()
+    })
+
+    test('can be disabled', async () => {
+      const onSync = vi.fn()
+      const tabA = new BrowserCache({ storage: 'memory' })
+      new BrowserCache({ storage: 'memory', sync: false }, { onSync })
+
+      await tabA.clear()
+      await new Promise(resolve => setTimeout(resolve, 0))
+
+      expect(onSync).not.toHaveBeenCalled()
+      expect(FakeBroadcastChannel.open).toHaveLength(1)
+    })
+
+    test('falls back to storage events without BroadcastChannel', async () => {
+      vi.stubGlobal('BroadcastChannel', undefined)
+      const onSync = vi.fn()
+      const tab = new BrowserCache({ storage: 'localStorage' }, { onSync })
+
+      window.dispatchEvent(new StorageEvent('storage', { key: 'vms@2:proj:en-US:posts:first', newValue: null }))
+      window.dispatchEvent(new StorageEvent('storage', { key: 'unrelated', newValue: 'x' }))
+
+      await vi.waitFor(() => expect(onSync).toHaveBeenCalledTimes(1))
+      expect(onSync).toHaveBeenCalledWith({ type: 'remove', keys: ['vms@2:proj:en-US:posts:first'] })
+      tab.destroy()
+    })
+
+    test('does not keep a Node process alive', () => {
+      vi.unstubAllGlobals()
+      const openPorts = () => process.getActiveResourcesInfo().filter(resource => resource === 'MessagePort').length
+      const before = openPorts()
+
+      const tab = new BrowserCache({ storage: 'memory' })
+
+      expect(openPorts()).toBe(before)
+      tab.destroy()
+    })
+
+    test('does not sync outside browsers', () => {
+      vi.stubGlobal('window', undefined)
+      const cache = new BrowserCache({ storage: 'memory' })
+
+      expect(FakeBroadcastChannel.open).toHaveLength(0)
+      cache.destroy()
+    })
+  })
+
   describe('Storage Fallbacks', () => {
     test('falls back to memory storage when browser storage unavailable', () => {
       // Mock both localStorage and sessionStorage to throw
@@ -6,13 +6,15 @@ import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
 import { VibeCMSClient } from '../src/core/client.js'
 import { createVibeCMS } from '../src/factory.js'
 import { CollectionQuery } from '../src/core/collection.js'
+import { MemoryStorageAdapter } from '../src/core/cache.js'
 import {
   mockFetch,
   TEST_PROJECT_ID,
+  TEST_ITEM_ID,
   createMockResponse,
   MOCK_PUBLIC_CONTENT_LIST_RESPONSE
 } from './setup.js'
-import { validateLocale } from '../src/types/config.js'
+import { validateLocale, ValidationError } from '../src/types/config.js'
 
 describe('Locale Validation', () => {
   test('validates correct BCP 47 locales', () => {
@@ -101,6 +103,17 @@ describe('VibeCMSClient', () => {
       )
     })
 
+    test('throws ValidationError for invalid configuration', () => {
+      try {
+        new VibeCMSClient({ projectId: 'invalid@project' })
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError)
+        expect((error as ValidationError).code).toBe('VALIDATION_ERROR')
+        expect((error as ValidationError).retryable).toBe(false)
+      }
+    })
+
     test('creates client with custom locale', () => {
       const client = new VibeCMSClient({
         projectId: TEST_PROJECT_ID,
@@ -163,7 +176,7 @@ describe('VibeCMSClient', () => {
       const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
       
       // Set some test data in localStorage
-      localStorage.setItem('vms:test:key', 'value')
+      localStorage.setItem('vms@2:test:key', 'value')
       
       await client.clearCache()
       
@@ -187,6 +200,159 @@ describe('VibeCMSClient', () => {
       expect(stats).toHaveProperty('ttl')
       expect(stats).toHaveProperty('keys')
     })
+
+    test('counts keys in a custom storage adapter', async () => {
+      const storage = new MemoryStorageAdapter()
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID, cache: { storage } })
+      mockFetch.mockResolvedValueOnce(createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+
+      await client.collection('blog-posts').first()
+      const stats = await client.getCacheStats()
+
+      expect(stats.storage).toBe('custom')
+      expect(stats.keys).toBe(2)
+      expect(stats.bytes).toBeGreaterThan(0)
+      expect(stats.evictions).toBe(0)
+      expect(storage.keys().sort()).toEqual([
+        `vms@2:${TEST_PROJECT_ID}:en-US:blog-posts:first`,
+        `vms@2:${TEST_PROJECT_ID}:en-US:blog-posts:item:${TEST_ITEM_ID}`,
+      ])
+    })
+
+    test('reports hits and misses and inspects entries', async () => {
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID, cache: { storage: 'memory' } })
+      mockFetch.mockResolvedValueOnce(createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await client.collection('blog-posts').first()
+      await client.collection('blog-posts').first()
+
+      const stats = await client.getCacheStats()
+      const inspection = await client.inspectCache()
+
+      expect(stats).toMatchObject({ hits: 1, misses: 1 })
+      expect(inspection.collections['blog-posts']).toEqual({ hits: 1, misses: 1, evictions: 0 })
+      expect(inspection.entries).toEqual(expect.arrayContaining([
+        expect.objectContaining({ collection: 'blog-posts', locale: 'en-US', queryType: 'first', expired: false }),
+        expect.objectContaining({ collection: 'blog-posts', queryType: 'item', itemId: TEST_ITEM_ID }),
+      ]))
+    })
+  })
+
+  describe('Invalidation', () => {
+    const seed = async (client: VibeCMSClient) => {
+      mockFetch.mockImplementation((url: string) => createMockResponse(
+        url.includes('/item_published123') ? MOCK_PUBLIC_CONTENT_LIST_RESPONSE[0] : MOCK_PUBLIC_CONTENT_LIST_RESPONSE
+      ))
+      await client.collection('blog-posts').many({ limit: 2 })
+      await client.collection('blog-posts').item('item_published123')
+      await client.collection('pages').first({ tags: ['homepage'] })
+      client.setLocale('fr-FR')
+      await client.collection('blog-posts').first()
+      client.setLocale('en-US')
+    }
+
+    const cachedKeys = () => Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i) ?? '')
+      .filter(key => key.startsWith('vms@2:'))
+
+    test('invalidates a collection in every locale', async () => {
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
+      await seed(client)
+
+      const removed = await client.invalidate({ collection: 'blog-posts' })
+
+      expect(removed).toBe(4)
+      expect(cachedKeys().sort()).toEqual([
+        `vms@2:${TEST_PROJECT_ID}:en-US:pages:first`,
+        `vms@2:${TEST_PROJECT_ID}:en-US:pages:item:item_published123`,
+      ])
+    })
+
+    test('invalidates a collection in one locale', async () => {
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
+      await seed(client)
+
+      await client.invalidate({ collection: 'blog-posts', locale: 'fr-FR' })
+
+      expect(cachedKeys()).not.toContain(`vms@2:${TEST_PROJECT_ID}:fr-FR:blog-posts:first`)
+      expect(cachedKeys()).toHaveLength(4)
+    })
+
+    test('invalidates an item and every list containing it', async () => {
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
+      await seed(client)
+
+      const removed = await client.invalidate({ itemId: 'item_published123' })
+
+      // Every list contains it, and each collection and locale keeps its own item entry
+      expect(removed).toBe(6)
+    })
+
+    test('invalidates by custom tag', async () => {
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
+      await seed(client)
+
+      await client.invalidate({ tag: 'homepage' })
+
+      expect(cachedKeys()).not.toContain(`vms@2:${TEST_PROJECT_ID}:en-US:pages:first`)
+      expect(cachedKeys()).toHaveLength(5)
+    })
+
+    test('leaves other projects alone', async () => {
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
+      const other = new VibeCMSClient({ projectId: 'other-project' })
+      await seed(client)
+      await seed(other)
+
+      await client.invalidate()
+
+      expect(cachedKeys().every(key => key.startsWith('vms@2:other-project:'))).toBe(true)
+      expect(cachedKeys()).toHaveLength(6)
+    })
+  })
+
+  describe('Reconfiguration', () => {
+    test('switches the cache under existing collections', async () => {
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
+      const posts = client.collection('blog-posts')
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await posts.many()
+
+      await client.reconfigureCache({ storage: 'memory' }, { migrate: true })
+      mockFetch.mockClear()
+      await posts.many()
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect((await client.getCacheStats()).storage).toBe('memory')
+      expect(Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+        .some(key => key?.startsWith('vms@2:'))).toBe(false)
+
+      await client.reconfigureCache({ enabled: false })
+      await posts.many()
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Dehydrate and Hydrate', () => {
+    test('serves queries from a server render without fetching', async () => {
+      const server = new VibeCMSClient({ projectId: TEST_PROJECT_ID, cache: { storage: 'memory' } })
+      server.setLocale('fr-FR')
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await server.collection('blog-posts').many({ limit: 2 })
+      const state = JSON.stringify(await server.dehydrate())
+
+      const browser = new VibeCMSClient({ projectId: TEST_PROJECT_ID, cache: { storage: 'memory' } })
+      browser.setLocale('fr-FR')
+      mockFetch.mockClear()
+      void browser.hydrate(state)
+      const result = await browser.collection('blog-posts').many({ limit: 2 })
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(result.count).toBe(MOCK_PUBLIC_CONTENT_LIST_RESPONSE.length)
+      expect(Object.keys(JSON.parse(state).entries)).toEqual(expect.arrayContaining([
+        expect.stringContaining(`vms@2:${TEST_PROJECT_ID}:fr-FR:blog-posts:many`),
+        `vms@2:${TEST_PROJECT_ID}:fr-FR:blog-posts:item:${TEST_ITEM_ID}`,
+      ]))
+    })
   })
 
   describe('Connectivity', () => {
@@ -217,6 +383,211 @@ describe('VibeCMSClient', () => {
     })
   })
 
+  describe('Timeouts', () => {
+    test('applies the client timeout to requests', async () => {
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID, timeout: 10 })
+      mockFetch.mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const abortError = new Error('The operation was aborted')
+          abortError.name = 'AbortError'
+          reject(abortError)
+        })
+      }))
+
+      expect(client.getConfig().timeout).toBe(10)
+      await expect(client.collection('blog-posts').first()).rejects.toThrow('Request timeout after 10ms')
+    })
+
+    test('ping reports cancellation', async () => {
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
+      const controller = new AbortController()
+      controller.abort()
+      mockFetch.mockImplementationOnce(() => {
+        const abortError = new Error('The operation was aborted')
+        abortError.name = 'AbortError'
+        return Promise.reject(abortError)
+      })
+
+      const result = await client.ping({ signal: controller.signal })
+
+      expect(result.success).toBe(false)
+      expect(result.status).toBe('Request aborted')
+    })
+  })
+
+  describe('Preview Mode', () => {
+    test('queries preview endpoints and marks results as preview', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
+      const preview = client.preview('prev_token')
+
+      const result = await preview.collection('blog-posts').first()
+
+      expect(preview.isPreview).toBe(true)
+      expect(client.isPreview).toBe(false)
+      expect(result.isPreview).toBe(true)
+      expect(mockFetch).toHaveBeenCalledWith(
+        `https://api.vibe-cms.com/api/preview/${TEST_PROJECT_ID}/blog-posts?locale=en-US`,
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Preview-Token': 'prev_token' }),
+        })
+      )
+    })
+
+    test('queries preview item endpoints', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE[0]))
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID, preview: true })
+
+      await client.collection('blog-posts').item('item_draft1')
+
+      expect(mockFetch.mock.calls[0]?.[0]).toBe(
+        `https://api.vibe-cms.com/api/preview/${TEST_PROJECT_ID}/blog-posts/item_draft1?locale=en-US`
+      )
+    })
+
+    test('does not read or write the published cache', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
+      await client.collection('blog-posts').first()
+
+      const preview = client.preview('prev_token')
+      const first = await preview.collection('blog-posts').first()
+      await preview.collection('blog-posts').first()
+
+      expect(first.isPreview).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      expect(localStorage.getItem(`vms@2:${TEST_PROJECT_ID}:en-US:blog-posts:first:@preview`)).toBeNull()
+    })
+
+    test('caches preview content in its own partition when enabled', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const client = new VibeCMSClient({
+        projectId: TEST_PROJECT_ID,
+        preview: { token: 'prev_token', cache: true },
+      })
+
+      await client.collection('blog-posts').first()
+      await client.collection('blog-posts').first()
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(localStorage.getItem(`vms@2:${TEST_PROJECT_ID}:en-US:blog-posts:first:@preview`)).not.toBeNull()
+      expect(localStorage.getItem(`vms@2:${TEST_PROJECT_ID}:en-US:blog-posts:first`)).toBeNull()
+    })
+
+    test('shares locale, credentials and middleware with the parent client', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const seen: string[] = []
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID, auth: { apiKey: 'key_123' } })
+      client.setLocale('fr-FR')
+      client.use(async (request, next) => {
+        seen.push(request.url)
+        return next(request)
+      })
+
+      const preview = client.preview('prev_token')
+      await preview.collection('blog-posts').many()
+
+      expect(preview.getLocale()).toBe('fr-FR')
+      expect(seen).toHaveLength(1)
+      expect(mockFetch.mock.calls[0]?.[1]?.headers).toMatchObject({
+        'X-API-Key': 'key_123',
+        'X-Preview-Token': 'prev_token',
+      })
+    })
+
+    test('reuses the preview client for the same token', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const seen: string[] = []
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
+      const preview = client.preview('prev_token')
+      const destroy = vi.spyOn(preview, 'destroy')
+
+      client.setLocale('fr-FR')
+      client.use(async (request, next) => {
+        seen.push(request.url)
+        return next(request)
+      })
+      await client.preview('prev_token').collection('blog-posts').many()
+
+      expect(client.preview('prev_token')).toBe(preview)
+      expect(preview.getLocale()).toBe('fr-FR')
+      expect(seen).toHaveLength(1)
+      expect(destroy).not.toHaveBeenCalled()
+
+      expect(client.preview('next_token')).not.toBe(preview)
+      expect(destroy).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Events', () => {
+    test('emits update events from background refreshes', async () => {
+      const client = new VibeCMSClient({
+        projectId: TEST_PROJECT_ID,
+        cache: { strategy: 'stale-while-revalidate', ttl: 1000 },
+      })
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await client.collection('blog-posts').first()
+
+      const now = Date.now()
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5000)
+      mockFetch.mockImplementationOnce(() => createMockResponse([]))
+      const listener = vi.fn()
+      const unsubscribe = client.on('update', listener)
+
+      await client.collection('blog-posts').first()
+
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1))
+      expect(listener.mock.calls[0]?.[0]).toMatchObject({ collection: 'blog-posts', queryType: 'first', data: null })
+      unsubscribe()
+    })
+
+    test('isolates throwing listeners', async () => {
+      const client = new VibeCMSClient({
+        projectId: TEST_PROJECT_ID,
+        cache: { strategy: 'stale-while-revalidate', ttl: 1000 },
+      })
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await client.collection('blog-posts').many()
+
+      const now = Date.now()
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5000)
+      mockFetch.mockImplementationOnce(() => createMockResponse([]))
+      const second = vi.fn()
+      client.on('update', () => {
+        throw new Error('Listener failed')
+      })
+      client.on('update', second)
+
+      await client.collection('blog-posts').many()
+
+      await vi.waitFor(() => expect(second).toHaveBeenCalledTimes(1))
+    })
+
+    test('emits sync events for changes made in other tabs', async () => {
+      const channels: Array<{ onmessage: ((event: { data: unknown }) => void) | null }> = []
+      vi.stubGlobal('BroadcastChannel', class {
+        onmessage: ((event: { data: unknown }) => void) | null = null
+        constructor() {
+          channels.push(this)
+        }
+        postMessage() {}
+        close() {
+          channels.splice(channels.indexOf(this), 1)
+        }
+      })
+      const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID, cache: { storage: 'memory' } })
+      const listener = vi.fn()
+      client.on('sync', listener)
+
+      channels[0]?.onmessage?.({ data: { type: 'clear' } })
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ type: 'clear' }))
+
+      client.destroy()
+      expect(channels).toHaveLength(0)
+      vi.unstubAllGlobals()
+    })
+  })
+
   describe('Scoped Collection', () => {
     test('creates scoped collection with bound methods', () => {
       const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID })
@@ -0,0 +1,94 @@
+/**
+ * Tests for the cache entry codecs.
+ */
+
+import { describe, test, expect, vi } from 'vitest'
+import { createAesGcmCodec, createLzCodec } from '../src/core/codecs.js'
+
+const generateKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+
+describe('LZ Codec', () => {
+  const codec = createLzCodec()
+
+  test('round-trips strings', async () => {
+    const samples = [
+      '',
+      'a',
+      'aaaaaaaaaaaaaaaa',
+      'abababababab',
+      JSON.stringify({ data: { title: 'Crème brûlée 🍮', body: '日本語のテキスト' }, timestamp: 1 }),
+      '\u0000\u0001￿😀',
+    ]
+
+    for (const sample of samples) {
+      expect(await codec.decode(await codec.encode(sample))).toBe(sample)
+    }
+  })
+
+  test('round-trips random input', async () => {
+    const alphabet = 'abc{}":,é😀'
+    for (let run = 0; run < 20; run++) {
+      const sample = Array.from({ length: 500 }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join('')
+      expect(await codec.decode(await codec.encode(sample))).toBe(sample)
+    }
+  })
+
+  test('shrinks repetitive JSON and stays out of the surrogate range', async () => {
+    const items = Array.from({ length: 200 }, (_, i) => ({ id: `post-${i}`, data: { title: `Post ${i}`, status: 'published' } }))
+    const json = JSON.stringify({ data: items, timestamp: Date.now(), ttl: 300000 })
+
+    const encoded = await codec.encode(json)
+
+    expect(encoded.length).toBeLessThan(json.length / 3)
+    expect(/[\ud800-\udfff\u0000-\u001f]/.test(encoded)).toBe(false)
+    expect(await codec.decode(encoded)).toBe(json)
+  })
+
+  test('uses long codes for large dictionaries', async () => {
+    const sample = Array.from({ length: 30000 }, (_, i) => i.toString(36)).join('|')
+
+    expect(await codec.decode(await codec.encode(sample))).toBe(sample)
+  })
+
+  test('rejects input it did not produce', async () => {
+    const encoded = await codec.encode('{"data":"value"}')
+
+    expect(() => codec.decode(encoded.slice(0, 2))).toThrow()
+    expect(() => codec.decode('\u0010abc')).toThrow()
+  })
+})
+
+describe('AES-GCM Codec', () => {
+  test('round-trips strings with a random IV', async () => {
+    const codec = createAesGcmCodec(await generateKey())
+    const value = JSON.stringify({ data: { secret: 'draft' }, timestamp: 1 })
+
+    const first = await codec.encode(value)
+    const second = await codec.encode(value)
+
+    expect(first).not.toContain('draft')
+    expect(first).not.toBe(second)
+    expect(await codec.decode(first)).toBe(value)
+    expect(await codec.decode(second)).toBe(value)
+  })
+
+  test('fails to decode with another key or tampered data', async () => {
+    const encoded = await createAesGcmCodec(await generateKey()).encode('{"data":1}')
+    const other = createAesGcmCodec(await generateKey())
+
+    await expect(other.decode(encoded)).rejects.toThrow()
+    const codec = createAesGcmCodec(await generateKey())
+    const valid = await codec.encode('{"data":1}')
+    const tampered = `${valid.slice(0, -4)}${valid.slice(-4) === 'AAAA' ? 'BBBB' : 'AAAA'}`
+    await expect(codec.decode(tampered)).rejects.toThrow()
+  })
+
+  test('resolves a key provider once', async () => {
+    const key = await generateKey()
+    const provider = vi.fn(async () => key)
+    const codec = createAesGcmCodec(provider)
+
+    expect(await codec.decode(await codec.encode('value'))).toBe('value')
+    expect(provider).toHaveBeenCalledTimes(1)
+  })
+})
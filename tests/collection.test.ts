@@ -7,6 +7,8 @@ import { CollectionQuery } from '../src/core/collection.js'
 import { Fetcher } from '../src/core/fetcher.js'
 import { BrowserCache } from '../src/core/cache.js'
 import { AssetManager } from '../src/core/asset.js'
+import { RequestAbortedError, VibeCMSError, NotFoundError } from '../src/types/config.js'
+import type { CacheStrategy } from '../src/types/config.js'
 import {
   mockFetch,
   TEST_PROJECT_ID,
@@ -247,6 +249,575 @@ describe('CollectionQuery', () => {
       
       expect(mockFetch).toHaveBeenCalledTimes(2)
     })
+
+    test('clearCache removes limited queries and items', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await collection.many({ limit: 5 })
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_RESPONSE))
+      await collection.item(TEST_ITEM_ID)
+
+      await collection.clearCache()
+
+      expect(await cache.keys()).toEqual([])
+    })
+
+    test('clearCache keeps other collections and locales', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const pages = new CollectionQuery(fetcher, cache, TEST_PROJECT_ID, 'pages', 'en-US', assetManager)
+      const french = new CollectionQuery(fetcher, cache, TEST_PROJECT_ID, TEST_COLLECTION_SLUG, 'fr-FR', assetManager)
+      await collection.first()
+      await pages.first()
+      await french.first()
+
+      await collection.clearCache()
+
+      // Each of the two remaining queries also cached its item
+      expect(await cache.keys()).toHaveLength(4)
+    })
+
+    test('tags entries with their collection, locale, items and custom tags', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+
+      await collection.many({ tags: ['homepage'] })
+
+      const key = cache.generateKey({
+        projectId: TEST_PROJECT_ID,
+        collectionSlug: TEST_COLLECTION_SLUG,
+        queryType: 'many',
+        locale: 'en-US',
+      })
+      const lookup = await cache.getEntry(key)
+      expect(lookup?.entry.tags).toEqual([
+        `project:${TEST_PROJECT_ID}`,
+        'locale:en-US',
+        `collection:${TEST_COLLECTION_SLUG}`,
+        `item:${TEST_ITEM_ID}`,
+        'tag:homepage',
+      ])
+    })
+
+    test('tags cached missing items', async () => {
+      mockFetch.mockResolvedValueOnce(createMockErrorResponse(404, 'Item not found'))
+
+      await collection.item('missing-item')
+
+      expect(await cache.invalidate([`item:missing-item`])).toBe(1)
+    })
+  })
+
+  describe('Revalidation', () => {
+    const listResponse = (etag: string) => Promise.resolve({
+      ok: true,
+      status: 200,
+      headers: new Headers({ ETag: etag }),
+      json: () => Promise.resolve(MOCK_PUBLIC_CONTENT_LIST_RESPONSE),
+    } as Response)
+
+    const notModified = () => Promise.resolve({
+      ok: false,
+      status: 304,
+      statusText: 'Not Modified',
+      headers: new Headers({ ETag: '"v1"' }),
+    } as Response)
+
+    test('revalidates expired entries and reuses them on 304', async () => {
+      const now = Date.now()
+      mockFetch.mockImplementationOnce(() => listResponse('"v1"'))
+      await collection.many()
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 301000)
+      mockFetch.mockImplementationOnce(notModified)
+      const result = await collection.many()
+
+      expect(result.raw).toEqual(MOCK_PUBLIC_CONTENT_LIST_RESPONSE)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(mockFetch.mock.calls[1]?.[1]?.headers).toMatchObject({ 'If-None-Match': '"v1"' })
+
+      // The TTL restarted, so the next call is a cache hit
+      await collection.many()
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('replaces expired entries when content changed', async () => {
+      const now = Date.now()
+      mockFetch.mockImplementationOnce(() => listResponse('"v1"'))
+      await collection.first()
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 301000)
+      mockFetch.mockImplementationOnce(() => listResponse('"v2"'))
+      await collection.first()
+
+      const lookup = await cache.getEntry(
+        cache.generateKey({ projectId: TEST_PROJECT_ID, collectionSlug: TEST_COLLECTION_SLUG, queryType: 'first', locale: 'en-US' })
+      )
+      expect(lookup?.entry.etag).toBe('"v2"')
+    })
+  })
+
+  describe('Cache Strategies', () => {
+    const UPDATED_LIST = [{ ...MOCK_PUBLIC_CONTENT_ITEM, data: { title: 'Updated' } }]
+
+    const withStrategy = (strategy: CacheStrategy) => {
+      const strategyCache = new BrowserCache({ enabled: true, ttl: 300000, storage: 'localStorage', strategy })
+      return {
+        cache: strategyCache,
+        query: new CollectionQuery(fetcher, strategyCache, TEST_PROJECT_ID, TEST_COLLECTION_SLUG, 'en-US', assetManager),
+      }
+    }
+
+    const expire = () => {
+      const now = Date.now()
+      vi.spyOn(Date, 'now').mockReturnValue(now + 301000)
+    }
+
+    test('cache-first is the default', () => {
+      expect(cache.strategy).toBe('cache-first')
+    })
+
+    test('stale-while-revalidate returns stale data and emits an update', async () => {
+      const { query } = withStrategy('stale-while-revalidate')
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await query.many()
+
+      expire()
+      mockFetch.mockImplementationOnce(() => createMockResponse(UPDATED_LIST))
+      const listener = vi.fn()
+      query.onUpdate(listener)
+
+      const stale = await query.many()
+
+      expect(stale.raw).toEqual(MOCK_PUBLIC_CONTENT_LIST_RESPONSE)
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1))
+      const [result, event] = listener.mock.calls[0]!
+      expect(result.raw).toEqual(UPDATED_LIST)
+      expect(event).toMatchObject({ collection: TEST_COLLECTION_SLUG, locale: 'en-US', queryType: 'many' })
+
+      // The refreshed entry is now served from cache
+      expect((await query.many()).raw).toEqual(UPDATED_LIST)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('stale-while-revalidate fetches normally on a cold cache', async () => {
+      const { query } = withStrategy('stale-while-revalidate')
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+
+      const result = await query.first()
+
+      expect(result.raw).toEqual(MOCK_PUBLIC_CONTENT_ITEM)
+    })
+
+    test('stale-while-revalidate keeps stale data when the refresh fails', async () => {
+      const { query } = withStrategy('stale-while-revalidate')
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await query.many()
+
+      expire()
+      mockFetch.mockImplementation(() => createMockNetworkError('Offline'))
+      const listener = vi.fn()
+      query.onUpdate(listener)
+
+      const result = await query.many()
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2))
+
+      expect(result.raw).toEqual(MOCK_PUBLIC_CONTENT_LIST_RESPONSE)
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    test('stale-while-revalidate drops items deleted on the server', async () => {
+      const { query } = withStrategy('stale-while-revalidate')
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_RESPONSE))
+      await query.item(TEST_ITEM_ID)
+
+      expire()
+      mockFetch.mockImplementation(() => createMockErrorResponse(404, 'Content not found or not published'))
+      const listener = vi.fn()
+      query.onUpdate(listener)
+
+      const stale = await query.item(TEST_ITEM_ID)
+
+      expect(stale.raw).toEqual(MOCK_PUBLIC_CONTENT_ITEM)
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1))
+      const [result, event] = listener.mock.calls[0]!
+      expect(result.raw).toBeNull()
+      expect(event).toMatchObject({ queryType: 'item', itemId: TEST_ITEM_ID, data: null })
+
+      // The missing item is cached, so later reads neither serve it nor refetch
+      expect((await query.item(TEST_ITEM_ID)).raw).toBeNull()
+      expect((await query.item(TEST_ITEM_ID)).raw).toBeNull()
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('network-first fetches even when cached', async () => {
+      const { query } = withStrategy('network-first')
+      mockFetch
+        .mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+        .mockImplementationOnce(() => createMockResponse(UPDATED_LIST))
+
+      await query.many()
+      const result = await query.many()
+
+      expect(result.raw).toEqual(UPDATED_LIST)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('network-first falls back to the cache on network errors', async () => {
+      const { query } = withStrategy('network-first')
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await query.many()
+
+      mockFetch.mockImplementationOnce(() => createMockNetworkError('Offline'))
+      const result = await query.many()
+
+      expect(result.raw).toEqual(MOCK_PUBLIC_CONTENT_LIST_RESPONSE)
+    })
+
+    test('network-first does not hide non-retryable errors', async () => {
+      const { query } = withStrategy('network-first')
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await query.many()
+
+      mockFetch.mockImplementationOnce(() => createMockErrorResponse(404, 'Collection not found'))
+
+      await expect(query.many()).rejects.toBeInstanceOf(NotFoundError)
+    })
+
+    test('cache-only never fetches', async () => {
+      const { query } = withStrategy('cache-only')
+
+      const error = await query.many().catch(e => e)
+
+      expect(error).toBeInstanceOf(VibeCMSError)
+      expect(error.code).toBe('CACHE_MISS')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    test('cache-only serves expired entries', async () => {
+      const { cache: strategyCache, query } = withStrategy('cache-only')
+      const key = strategyCache.generateKey({
+        projectId: TEST_PROJECT_ID,
+        collectionSlug: TEST_COLLECTION_SLUG,
+        queryType: 'many',
+        locale: 'en-US',
+      })
+      await strategyCache.set(key, MOCK_PUBLIC_CONTENT_LIST_RESPONSE)
+      expire()
+
+      const result = await query.many()
+
+      expect(result.raw).toEqual(MOCK_PUBLIC_CONTENT_LIST_RESPONSE)
+    })
+
+    test('network-only neither reads nor writes the cache', async () => {
+      const { query } = withStrategy('network-only')
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+
+      await query.many()
+      await query.many()
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(localStorage.setItem).mock.calls.filter(([key]) => key.startsWith('vms@2:'))).toHaveLength(0)
+    })
+  })
+
+  describe('Cache Policies', () => {
+    const withPolicies = (config: ConstructorParameters<typeof BrowserCache>[0]) => {
+      const policyCache = new BrowserCache({ enabled: true, ttl: 300000, storage: 'localStorage', ...config })
+      return {
+        cache: policyCache,
+        query: new CollectionQuery(fetcher, policyCache, TEST_PROJECT_ID, TEST_COLLECTION_SLUG, 'en-US', assetManager),
+      }
+    }
+
+    const cachedTtl = async (policyCache: BrowserCache, key: string) =>
+      (await policyCache.getEntry(key, { allowStale: true }))?.entry.ttl
+
+    test('uses the collection TTL and negative TTL', async () => {
+      const { cache: policyCache, query } = withPolicies({
+        collections: { [TEST_COLLECTION_SLUG]: { ttl: 30000, negativeTtl: 5000 } },
+      })
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      mockFetch.mockImplementationOnce(() => createMockErrorResponse(404, 'Not found'))
+
+      await query.many()
+      await query.item('missing')
+
+      expect(await cachedTtl(policyCache, `vms@2:${TEST_PROJECT_ID}:en-US:${TEST_COLLECTION_SLUG}:many`)).toBe(30000)
+      expect(await cachedTtl(policyCache, `vms@2:${TEST_PROJECT_ID}:en-US:${TEST_COLLECTION_SLUG}:item:missing`)).toBe(5000)
+    })
+
+    test('uses the client negative TTL for empty results', async () => {
+      const { cache: policyCache, query } = withPolicies({ negativeTtl: 10000 })
+      mockFetch.mockImplementationOnce(() => createMockResponse([]))
+
+      await query.first()
+
+      expect(await cachedTtl(policyCache, `vms@2:${TEST_PROJECT_ID}:en-US:${TEST_COLLECTION_SLUG}:first`)).toBe(10000)
+    })
+
+    test('applies the collection strategy and can disable caching', async () => {
+      const { query } = withPolicies({
+        collections: { [TEST_COLLECTION_SLUG]: { strategy: 'network-only' } },
+      })
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+
+      await query.many()
+      await query.many()
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+
+      const disabled = withPolicies({ collections: { [TEST_COLLECTION_SLUG]: { enabled: false } } })
+      await disabled.query.first()
+      expect(await disabled.cache.keys()).toEqual([])
+    })
+
+    test('leaves other collections on the client settings', async () => {
+      const { cache: policyCache } = withPolicies({ collections: { news: { ttl: 30000, strategy: 'network-first' } } })
+
+      expect(policyCache.policy('news')).toEqual({ ttl: 30000, negativeTtl: 60000, strategy: 'network-first', enabled: true })
+      expect(policyCache.policy(TEST_COLLECTION_SLUG)).toEqual({ ttl: 300000, negativeTtl: 60000, strategy: 'cache-first', enabled: true })
+    })
+
+    test('.ttl() overrides the TTL for one query', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await collection.many()
+
+      const now = Date.now()
+      vi.spyOn(Date, 'now').mockReturnValue(now + 2000)
+      await collection.ttl(1000).many()
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(await cachedTtl(cache, `vms@2:${TEST_PROJECT_ID}:en-US:${TEST_COLLECTION_SLUG}:many`)).toBe(1000)
+
+      await collection.many()
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(() => collection.ttl(-1)).toThrow('VMS SDK: TTL must be a non-negative number')
+    })
+
+    test('.noCache() neither reads nor writes the cache', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+
+      await collection.noCache().many()
+      await collection.noCache().many()
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(await cache.keys()).toEqual([])
+    })
+
+    test('.fresh() fetches and updates the cache', async () => {
+      const updated = [{ ...MOCK_PUBLIC_CONTENT_ITEM, data: { title: 'Updated' } }]
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      mockFetch.mockImplementationOnce(() => createMockResponse(updated))
+      await collection.many()
+
+      const fresh = await collection.fresh().many()
+      const cached = await collection.many()
+
+      expect(fresh.raw).toEqual(updated)
+      expect(cached.raw).toEqual(updated)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('overrides return new queries', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      const uncached = collection.noCache()
+
+      await collection.many()
+      await collection.many()
+
+      expect(uncached).not.toBe(collection)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Normalized Entities', () => {
+    const listKey = `vms@2:${TEST_PROJECT_ID}:en-US:${TEST_COLLECTION_SLUG}:many`
+
+    test('lists populate item lookups', async () => {
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+
+      await collection.many()
+      const item = await collection.item(TEST_ITEM_ID)
+
+      expect(item.raw).toEqual(MOCK_PUBLIC_CONTENT_ITEM)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect((await cache.getEntry(listKey))?.entry.data).toEqual({ $refs: [TEST_ITEM_ID] })
+    })
+
+    test('first() populates item lookups', async () => {
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+
+      await collection.first()
+      await collection.item(TEST_ITEM_ID)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect((await collection.first()).raw).toEqual(MOCK_PUBLIC_CONTENT_ITEM)
+    })
+
+    test('lists show newer item data', async () => {
+      const updated = { ...MOCK_PUBLIC_CONTENT_ITEM, data: { title: 'Updated' } }
+      mockFetch.mockImplementationOnce(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      mockFetch.mockImplementationOnce(() => createMockResponse(updated))
+
+      await collection.many()
+      await collection.fresh().item(TEST_ITEM_ID)
+      const list = await collection.many()
+
+      expect(list.raw).toEqual([updated])
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('refetches lists whose items are gone', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await collection.many()
+
+      await cache.remove(`vms@2:${TEST_PROJECT_ID}:en-US:${TEST_COLLECTION_SLUG}:item:${TEST_ITEM_ID}`)
+      const list = await collection.many()
+
+      expect(list.raw).toEqual(MOCK_PUBLIC_CONTENT_LIST_RESPONSE)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('caches lists of items without IDs as they are', async () => {
+      const items = [{ title: 'No ID' }]
+      mockFetch.mockImplementationOnce(() => createMockResponse(items))
+
+      await collection.many()
+
+      expect((await cache.getEntry(listKey))?.entry.data).toEqual(items)
+      expect(await cache.keys()).toEqual([listKey])
+    })
+
+    test('caches lists larger than maxEntries as they are', async () => {
+      const items = Array.from({ length: 5 }, (_, i) => ({ ...MOCK_PUBLIC_CONTENT_ITEM, id: `item-${i}` }))
+      mockFetch.mockImplementation(() => createMockResponse(items))
+      const small = new BrowserCache({ storage: 'memory', maxEntries: 5 })
+      const query = new CollectionQuery(fetcher, small, TEST_PROJECT_ID, TEST_COLLECTION_SLUG, 'en-US', assetManager)
+
+      await query.many()
+      const list = await query.many()
+
+      expect(list.raw).toEqual(items)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect((await small.usage()).evictions).toBe(0)
+    })
+
+    test('caches lists larger than maxBytes as they are', async () => {
+      const items = Array.from({ length: 5 }, (_, i) => ({ ...MOCK_PUBLIC_CONTENT_ITEM, id: `item-${i}` }))
+      mockFetch.mockImplementation(() => createMockResponse(items))
+      const roomy = new BrowserCache({ storage: 'memory' })
+      await new CollectionQuery(fetcher, roomy, TEST_PROJECT_ID, TEST_COLLECTION_SLUG, 'en-US', assetManager).many()
+      const small = new BrowserCache({ storage: 'memory', maxBytes: (await roomy.usage()).bytes - 1 })
+      const query = new CollectionQuery(fetcher, small, TEST_PROJECT_ID, TEST_COLLECTION_SLUG, 'en-US', assetManager)
+
+      await query.many()
+      const list = await query.many()
+
+      expect(list.raw).toEqual(items)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect((await small.usage()).evictions).toBe(0)
+    })
+
+    test('measures list size after codecs', async () => {
+      const items = Array.from({ length: 5 }, (_, i) => ({ ...MOCK_PUBLIC_CONTENT_ITEM, id: `item-${i}` }))
+      mockFetch.mockImplementation(() => createMockResponse(items))
+      const roomy = new BrowserCache({ storage: 'memory' })
+      await new CollectionQuery(fetcher, roomy, TEST_PROJECT_ID, TEST_COLLECTION_SLUG, 'en-US', assetManager).many()
+      const doubling = { name: 'double', encode: (value: string) => value + value, decode: (value: string) => value.slice(value.length / 2) }
+      const small = new BrowserCache({ storage: 'memory', maxBytes: (await roomy.usage()).bytes * 1.5, codecs: [doubling] })
+      const query = new CollectionQuery(fetcher, small, TEST_PROJECT_ID, TEST_COLLECTION_SLUG, 'en-US', assetManager)
+
+      await query.many()
+      const list = await query.many()
+
+      expect(list.raw).toEqual(items)
+      expect((await small.usage()).evictions).toBe(0)
+    })
+
+    test('caches lists larger than the in-memory tier as they are', async () => {
+      const items = Array.from({ length: 5 }, (_, i) => ({ ...MOCK_PUBLIC_CONTENT_ITEM, id: `item-${i}` }))
+      mockFetch.mockImplementation(() => createMockResponse(items))
+      const small = new BrowserCache({ storage: 'memory', memoryCache: { maxEntries: 5 } })
+      const query = new CollectionQuery(fetcher, small, TEST_PROJECT_ID, TEST_COLLECTION_SLUG, 'en-US', assetManager)
+
+      await query.many()
+      const list = await query.many()
+
+      expect(list.raw).toEqual(items)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect((await small.getEntry(listKey))?.entry.data).toEqual(items)
+    })
+  })
+
+  describe('Concurrent Queries', () => {
+    test('concurrent cache misses share a single network request', async () => {
+      mockFetch.mockImplementation(() => createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+
+      const [first, many, all, info] = await Promise.all([
+        collection.first(),
+        collection.many({ limit: 5 }),
+        collection.all(),
+        collection.getCollectionInfo(),
+        collection.first(),
+      ])
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(first.raw).toEqual(MOCK_PUBLIC_CONTENT_ITEM)
+      expect(many.count).toBe(1)
+      expect(all.count).toBe(1)
+      expect(info.itemCount).toBe(1)
+    })
+  })
+
+  describe('Cancellation', () => {
+    test('cancels the in-flight request when the signal aborts', async () => {
+      let networkSignal: AbortSignal | undefined
+      mockFetch.mockImplementationOnce((_url: string, init: RequestInit) => {
+        networkSignal = init.signal ?? undefined
+        return new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            const abortError = new Error('The operation was aborted')
+            abortError.name = 'AbortError'
+            reject(abortError)
+          })
+        })
+      })
+      const controller = new AbortController()
+
+      const request = collection.many({ limit: 1, signal: controller.signal, timeout: 5000 })
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled())
+      controller.abort()
+
+      await expect(request).rejects.toBeInstanceOf(RequestAbortedError)
+      expect(networkSignal?.aborted).toBe(true)
+    })
+
+    test('aborted queries reject with RequestAbortedError and are not cached', async () => {
+      mockFetch.mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const abortError = new Error('The operation was aborted')
+          abortError.name = 'AbortError'
+          reject(abortError)
+        })
+      }))
+      const controller = new AbortController()
+
+      const request = collection.item(TEST_ITEM_ID, { signal: controller.signal })
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled())
+      controller.abort()
+
+      await expect(request).rejects.toBeInstanceOf(RequestAbortedError)
+
+      mockFetch.mockResolvedValueOnce(createMockResponse(MOCK_PUBLIC_CONTENT_RESPONSE))
+      const result = await collection.item(TEST_ITEM_ID)
+      expect(result.raw).toEqual(MOCK_PUBLIC_CONTENT_ITEM)
+    })
+
+    test('signal and timeout do not change the cache key', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+
+      await collection.many({ limit: 1, timeout: 1000 })
+      await collection.many({ limit: 1 })
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
   })
 
   describe('Collection Info', () => {
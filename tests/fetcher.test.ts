@@ -4,7 +4,17 @@
 
 import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
 import { Fetcher } from '../src/core/fetcher.js'
-import { VibeCMSError } from '../src/types/config.js'
+import {
+  VibeCMSError,
+  RequestAbortedError,
+  NotFoundError,
+  RateLimitError,
+  TimeoutError,
+  NetworkError,
+  ValidationError,
+  AuthError,
+  ParseError,
+} from '../src/types/config.js'
 import { 
   mockFetch,
   createMockResponse,
@@ -263,6 +273,179 @@ describe('Fetcher', () => {
     })
   })
 
+  describe('Error Types', () => {
+    const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: new Headers(headers),
+      json: () => Promise.resolve({ detail: `Status ${status}` }),
+      text: () => Promise.resolve(''),
+    } as Response)
+
+    test.each([
+      [400, ValidationError, 'VALIDATION_ERROR', false],
+      [401, AuthError, 'AUTH_ERROR', false],
+      [403, AuthError, 'AUTH_ERROR', false],
+      [404, NotFoundError, 'NOT_FOUND', false],
+      [408, TimeoutError, 'TIMEOUT', true],
+      [422, ValidationError, 'VALIDATION_ERROR', false],
+      [429, RateLimitError, 'RATE_LIMITED', true],
+    ] as const)('maps status %i to %o', async (status, ErrorClass, code, retryable) => {
+      mockFetch.mockResolvedValueOnce(errorResponse(status))
+
+      const error = await fetcher.get('/api/test').catch(e => e)
+
+      expect(error).toBeInstanceOf(ErrorClass)
+      expect(error).toBeInstanceOf(VibeCMSError)
+      expect(error.code).toBe(code)
+      expect(error.retryable).toBe(retryable)
+      expect(error.status).toBe(status)
+    })
+
+    test('uses the generic class with status-based codes for other statuses', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(503))
+      const serverError = await fetcher.get('/api/test').catch(e => e)
+      expect(serverError.constructor).toBe(VibeCMSError)
+      expect(serverError.code).toBe('SERVER_ERROR')
+      expect(serverError.retryable).toBe(true)
+
+      mockFetch.mockResolvedValueOnce(errorResponse(409))
+      const conflict = await fetcher.get('/api/conflict').catch(e => e)
+      expect(conflict.code).toBe('HTTP_ERROR')
+      expect(conflict.retryable).toBe(false)
+    })
+
+    test('attaches the request URL and request ID', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(404, { 'X-Request-ID': 'req_abc123' }))
+
+      const error = await fetcher.get('/api/missing').catch(e => e)
+
+      expect(error.url).toBe('https://api.vibe-cms.com/api/missing')
+      expect(error.requestId).toBe('req_abc123')
+    })
+
+    test('exposes Retry-After on rate limit errors', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '2' }))
+
+      const error = await fetcher.get('/api/test').catch(e => e)
+
+      expect(error).toBeInstanceOf(RateLimitError)
+      expect(error.retryAfter).toBe(2000)
+    })
+
+    test('throws NetworkError when no response is received', async () => {
+      mockFetch.mockImplementationOnce(() => createMockNetworkError('Failed to fetch'))
+
+      const error = await fetcher.get('/api/test').catch(e => e)
+
+      expect(error).toBeInstanceOf(NetworkError)
+      expect(error.code).toBe('NETWORK_ERROR')
+      expect(error.retryable).toBe(true)
+      expect(error.url).toBe('https://api.vibe-cms.com/api/test')
+    })
+
+    test('throws TimeoutError on local timeouts', async () => {
+      const abortError = new Error('The operation was aborted')
+      abortError.name = 'AbortError'
+      mockFetch.mockRejectedValueOnce(abortError)
+
+      const error = await fetcher.get('/api/slow', { timeout: 1000 }).catch(e => e)
+
+      expect(error).toBeInstanceOf(TimeoutError)
+      expect(error.status).toBe(408)
+      expect(error.code).toBe('TIMEOUT')
+    })
+
+    test('throws ParseError for malformed JSON', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.reject(new Error('Malformed JSON')),
+        text: () => Promise.resolve('<html>'),
+      } as Response)
+
+      const error = await fetcher.get('/api/invalid-json').catch(e => e)
+
+      expect(error).toBeInstanceOf(ParseError)
+      expect(error.code).toBe('PARSE_ERROR')
+      expect(error.retryable).toBe(false)
+    })
+
+    test('reports cancellation with the ABORTED code', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      const error = await fetcher.get('/api/test', { signal: controller.signal }).catch(e => e)
+
+      expect(error).toBeInstanceOf(RequestAbortedError)
+      expect(error.code).toBe('ABORTED')
+      expect(error.retryable).toBe(false)
+    })
+
+    test('keeps the existing constructor signature working', () => {
+      const error = new VibeCMSError('Custom', 404, { foo: 'bar' })
+
+      expect(error.code).toBe('NOT_FOUND')
+      expect(error.retryable).toBe(false)
+      expect(error.details).toEqual({ foo: 'bar' })
+      expect(new VibeCMSError('No status').code).toBe('UNKNOWN')
+    })
+  })
+
+  describe('Conditional Requests', () => {
+    test('sends validators and reports 304 Not Modified', async () => {
+      const json = vi.fn()
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 304,
+        statusText: 'Not Modified',
+        headers: new Headers({ ETag: '"v1"' }),
+        json,
+      } as unknown as Response)
+
+      const result = await fetcher.getConditional('/api/test', {
+        etag: '"v1"',
+        lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT',
+      })
+
+      expect(result).toEqual({ notModified: true, data: undefined, etag: '"v1"' })
+      expect(json).not.toHaveBeenCalled()
+      expect(mockFetch.mock.calls[0]?.[1]?.headers).toMatchObject({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Wed, 01 Jan 2025 00:00:00 GMT',
+      })
+    })
+
+    test('returns data and new validators when modified', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"v2"', 'Last-Modified': 'Thu, 02 Jan 2025 00:00:00 GMT' }),
+        json: () => Promise.resolve({ id: 1 }),
+      } as Response)
+
+      const result = await fetcher.getConditional('/api/test', { etag: '"v1"' })
+
+      expect(result).toEqual({
+        notModified: false,
+        data: { id: 1 },
+        etag: '"v2"',
+        lastModified: 'Thu, 02 Jan 2025 00:00:00 GMT',
+      })
+    })
+
+    test('sends no conditional headers without validators', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ id: 1 }))
+
+      await fetcher.getConditional('/api/test')
+
+      const headers = mockFetch.mock.calls[0]?.[1]?.headers
+      expect(headers).not.toHaveProperty('If-None-Match')
+      expect(headers).not.toHaveProperty('If-Modified-Since')
+    })
+  })
+
   describe('Special Response Handling', () => {
     test('handles 204 No Content responses', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -331,4 +514,423 @@ describe('Fetcher', () => {
       clearTimeoutSpy.mockRestore()
     })
   })
+  describe('Middleware', () => {
+    test('runs middleware in registration order around the request', async () => {
+      const calls: string[] = []
+      const middlewareFetcher = new Fetcher('https://api.vibe-cms.com', {
+        middleware: [
+          async (request, next) => {
+            calls.push('first:before')
+            const response = await next(request)
+            calls.push('first:after')
+            return response
+          },
+        ],
+      })
+      middlewareFetcher.use(async (request, next) => {
+        calls.push('second:before')
+        const response = await next(request)
+        calls.push('second:after')
+        return response
+      })
+
+      mockFetch.mockResolvedValueOnce(createMockResponse({ success: true }))
+
+      await middlewareFetcher.get('/api/test')
+
+      expect(calls).toEqual(['first:before', 'second:before', 'second:after', 'first:after'])
+    })
+
+    test('allows middleware to add headers and rewrite the URL', async () => {
+      fetcher.use(async (request, next) => {
+        return next({
+          ...request,
+          url: request.url.replace('/api/', '/api/v2/'),
+          headers: { ...request.headers, 'Authorization': 'Bearer secret' },
+        })
+      })
+
+      mockFetch.mockResolvedValueOnce(createMockResponse({ success: true }))
+
+      await fetcher.get('/api/test')
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.vibe-cms.com/api/v2/test',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'Authorization': 'Bearer secret',
+            'Content-Type': 'application/json',
+          }),
+        })
+      )
+    })
+
+    test('allows middleware to replace the response', async () => {
+      fetcher.use(async () => createMockResponse({ intercepted: true }))
+
+      const result = await fetcher.get('/api/test')
+
+      expect(result).toEqual({ intercepted: true })
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    test('raw() runs through the pipeline without parsing the response', async () => {
+      const seen: string[] = []
+      fetcher.use(async (request, next) => {
+        seen.push(`${request.method} ${request.url}`)
+        return next(request)
+      })
+
+      mockFetch.mockResolvedValueOnce(createMockErrorResponse(404, 'Missing'))
+
+      const response = await fetcher.raw('/api/assets/file', { headers: { 'Accept': '*/*' } })
+
+      expect(response.status).toBe(404)
+      expect(seen).toEqual(['GET https://api.vibe-cms.com/api/assets/file'])
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.vibe-cms.com/api/assets/file',
+        expect.objectContaining({ headers: { 'Accept': '*/*' } })
+      )
+    })
+  })
+  describe('Retries', () => {
+    function createStatusResponse(status: number, headers: Record<string, string> = {}) {
+      return Promise.resolve({
+        ok: false,
+        status,
+        statusText: 'Error',
+        headers: new Headers(headers),
+        json: () => Promise.resolve({ detail: `Status ${status}` }),
+        text: () => Promise.resolve(''),
+      } as Response)
+    }
+
+    test('does not retry by default', async () => {
+      mockFetch.mockImplementation(() => createStatusResponse(503))
+
+      await expect(fetcher.get('/api/test')).rejects.toThrow('Status 503')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    test('retries retryable statuses and succeeds', async () => {
+      const retryFetcher = new Fetcher('https://api.vibe-cms.com', {
+        retry: { maxAttempts: 3, baseDelay: 1 },
+      })
+
+      mockFetch
+        .mockImplementationOnce(() => createStatusResponse(503))
+        .mockImplementationOnce(() => createStatusResponse(502))
+        .mockImplementationOnce(() => createMockResponse({ success: true }))
+
+      const result = await retryFetcher.get('/api/test')
+
+      expect(result).toEqual({ success: true })
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+
+    test('records every attempt in the final error details', async () => {
+      const retryFetcher = new Fetcher('https://api.vibe-cms.com', {
+        retry: { maxAttempts: 3, baseDelay: 1 },
+      })
+
+      mockFetch.mockImplementation(() => createStatusResponse(503))
+
+      const error = await retryFetcher.get('/api/test').catch(e => e)
+
+      expect(error).toBeInstanceOf(VibeCMSError)
+      expect(error.status).toBe(503)
+      expect(error.details.detail).toBe('Status 503')
+      expect(error.details.attempts).toHaveLength(3)
+      expect(error.details.attempts[0]).toEqual(
+        expect.objectContaining({ attempt: 1, status: 503, delay: expect.any(Number) })
+      )
+      expect(error.details.attempts[2]).toEqual({ attempt: 3, status: 503 })
+    })
+
+    test('does not retry statuses outside the policy', async () => {
+      const retryFetcher = new Fetcher('https://api.vibe-cms.com', {
+        retry: { maxAttempts: 3, baseDelay: 1 },
+      })
+
+      mockFetch.mockImplementation(() => createStatusResponse(404))
+
+      await expect(retryFetcher.get('/api/test')).rejects.toThrow('Status 404')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    test('supports a per-status retry predicate', async () => {
+      const retryOn = vi.fn((status: number) => status === 418)
+      const retryFetcher = new Fetcher('https://api.vibe-cms.com', {
+        retry: { maxAttempts: 2, baseDelay: 1, retryOn },
+      })
+
+      mockFetch
+        .mockImplementationOnce(() => createStatusResponse(418))
+        .mockImplementationOnce(() => createMockResponse({ success: true }))
+
+      await expect(retryFetcher.get('/api/test')).resolves.toEqual({ success: true })
+      expect(retryOn).toHaveBeenCalledWith(418, 1)
+    })
+
+    test('retries network errors', async () => {
+      const retryFetcher = new Fetcher('https://api.vibe-cms.com', {
+        retry: { maxAttempts: 2, baseDelay: 1 },
+      })
+
+      mockFetch
+        .mockImplementationOnce(() => createMockNetworkError('Connection reset'))
+        .mockImplementationOnce(() => createMockResponse({ success: true }))
+
+      await expect(retryFetcher.get('/api/test')).resolves.toEqual({ success: true })
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('does not retry non-idempotent methods', async () => {
+      const retryFetcher = new Fetcher('https://api.vibe-cms.com', {
+        retry: { maxAttempts: 3, baseDelay: 1 },
+      })
+
+      mockFetch.mockImplementation(() => createStatusResponse(503))
+
+      await expect(retryFetcher.post('/api/create', {})).rejects.toThrow('Status 503')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    test('honors Retry-After headers', async () => {
+      vi.useFakeTimers()
+      try {
+        const retryFetcher = new Fetcher('https://api.vibe-cms.com', {
+          retry: { maxAttempts: 2, baseDelay: 1 },
+        })
+
+        mockFetch
+          .mockImplementationOnce(() => createStatusResponse(429, { 'Retry-After': '2' }))
+          .mockImplementationOnce(() => createMockResponse({ success: true }))
+
+        const promise = retryFetcher.get('/api/test')
+
+        await vi.advanceTimersByTimeAsync(1999)
+        expect(mockFetch).toHaveBeenCalledTimes(1)
+
+        await vi.advanceTimersByTimeAsync(1)
+        await expect(promise).resolves.toEqual({ success: true })
+        expect(mockFetch).toHaveBeenCalledTimes(2)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    test('gives up when Retry-After exceeds maxDelay', async () => {
+      const retryFetcher = new Fetcher('https://api.vibe-cms.com', {
+        retry: { maxAttempts: 3, baseDelay: 1, maxDelay: 1000 },
+      })
+
+      mockFetch.mockImplementation(() => createStatusResponse(503, { 'Retry-After': '120' }))
+
+      await expect(retryFetcher.get('/api/test')).rejects.toThrow('Status 503')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    test('retries raw asset requests', async () => {
+      const retryFetcher = new Fetcher('https://api.vibe-cms.com', {
+        retry: { maxAttempts: 2, baseDelay: 1 },
+      })
+
+      mockFetch
+        .mockImplementationOnce(() => createStatusResponse(503))
+        .mockImplementationOnce(() => createMockResponse({ success: true }))
+
+      const response = await retryFetcher.raw('/api/assets/file')
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+  })
+  describe('Request Deduplication', () => {
+    test('shares one request between identical in-flight GETs', async () => {
+      let resolveResponse: (value: Response) => void = () => {}
+      mockFetch.mockImplementationOnce(() => new Promise(resolve => { resolveResponse = resolve }))
+
+      const requests = [fetcher.get('/api/test'), fetcher.get('/api/test'), fetcher.get('api/test')]
+      resolveResponse(await createMockResponse({ success: true }))
+
+      const results = await Promise.all(requests)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(results).toEqual([{ success: true }, { success: true }, { success: true }])
+    })
+
+    test('does not merge requests with different headers', async () => {
+      mockFetch.mockImplementation(() => createMockResponse({ success: true }))
+
+      await Promise.all([
+        fetcher.get('/api/test', { headers: { 'X-Variant': 'a' } }),
+        fetcher.get('/api/test', { headers: { 'X-Variant': 'b' } }),
+      ])
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('does not hold callers to another caller\'s timeout', async () => {
+      const slowFetcher = new Fetcher('https://api.vibe-cms.com', { retry: { maxAttempts: 1 } })
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((resolve, reject) => {
+        const timer = setTimeout(() => resolve(createMockResponse({ success: true })), 60)
+        init.signal?.addEventListener('abort', () => {
+          clearTimeout(timer)
+          const abortError = new Error('The operation was aborted')
+          abortError.name = 'AbortError'
+          reject(abortError)
+        })
+      }))
+
+      const results = await Promise.allSettled([
+        slowFetcher.get('/api/test', { timeout: 20 }),
+        slowFetcher.get('/api/test'),
+      ])
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(results[0]).toMatchObject({ status: 'rejected', reason: expect.any(TimeoutError) })
+      expect(results[1]).toEqual({ status: 'fulfilled', value: { success: true } })
+    })
+
+    test('issues a new request once the previous one settled', async () => {
+      mockFetch.mockImplementation(() => createMockResponse({ success: true }))
+
+      await fetcher.get('/api/test')
+      await fetcher.get('/api/test')
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('shares failures with every caller', async () => {
+      mockFetch.mockImplementationOnce(() => createMockErrorResponse(500, 'Boom'))
+
+      const results = await Promise.allSettled([fetcher.get('/api/test'), fetcher.get('/api/test')])
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected'])
+    })
+
+    test('can be disabled', async () => {
+      const plainFetcher = new Fetcher('https://api.vibe-cms.com', { dedupe: false })
+      mockFetch.mockImplementation(() => createMockResponse({ success: true }))
+
+      await Promise.all([plainFetcher.get('/api/test'), plainFetcher.get('/api/test')])
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+  })
+  describe('Cancellation', () => {
+    // Fetch that never resolves but rejects like the native one when aborted
+    function mockHangingFetch() {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const abortError = new Error('The operation was aborted')
+          abortError.name = 'AbortError'
+          reject(abortError)
+        })
+      }))
+    }
+
+    test('rejects with RequestAbortedError when the signal aborts', async () => {
+      mockHangingFetch()
+      const controller = new AbortController()
+
+      const request = fetcher.get('/api/test', { signal: controller.signal })
+      controller.abort()
+
+      const error = await request.catch(e => e)
+      expect(error).toBeInstanceOf(RequestAbortedError)
+      expect(error).toBeInstanceOf(VibeCMSError)
+      expect(error.status).not.toBe(408)
+    })
+
+    test('rejects immediately for an already aborted signal', async () => {
+      mockHangingFetch()
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(fetcher.get('/api/test', { signal: controller.signal })).rejects.toBeInstanceOf(RequestAbortedError)
+    })
+
+    test('reports timeouts separately from cancellation', async () => {
+      mockHangingFetch()
+
+      const error = await fetcher.get('/api/test', { timeout: 10 }).catch(e => e)
+
+      expect(error).not.toBeInstanceOf(RequestAbortedError)
+      expect(error.status).toBe(408)
+    })
+
+    test('uses the fetcher default timeout', async () => {
+      mockHangingFetch()
+      const fastFetcher = new Fetcher('https://api.vibe-cms.com', { timeout: 10 })
+
+      await expect(fastFetcher.get('/api/test')).rejects.toThrow('Request timeout after 10ms')
+    })
+
+    test('stops retrying once aborted', async () => {
+      const retryFetcher = new Fetcher('https://api.vibe-cms.com', {
+        retry: { maxAttempts: 5, baseDelay: 50 },
+      })
+      const controller = new AbortController()
+      mockFetch.mockImplementation(() => createMockNetworkError('Connection reset'))
+
+      const request = retryFetcher.get('/api/test', { signal: controller.signal })
+      await new Promise(resolve => setTimeout(resolve, 5))
+      controller.abort()
+
+      await expect(request).rejects.toBeInstanceOf(RequestAbortedError)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    test('aborting one deduplicated caller does not affect the others', async () => {
+      let resolveResponse: (value: Response) => void = () => {}
+      let networkSignal: AbortSignal | undefined
+      mockFetch.mockImplementationOnce((_url: string, init: RequestInit) => {
+        networkSignal = init.signal ?? undefined
+        return new Promise(resolve => { resolveResponse = resolve })
+      })
+      const controller = new AbortController()
+
+      const aborted = fetcher.get('/api/test', { signal: controller.signal })
+      const kept = fetcher.get('/api/test')
+      controller.abort()
+
+      await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError)
+      expect(networkSignal?.aborted).toBe(false)
+
+      resolveResponse(await createMockResponse({ success: true }))
+      await expect(kept).resolves.toEqual({ success: true })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    test('aborts the shared request when every caller aborted', async () => {
+      mockHangingFetch()
+      const first = new AbortController()
+      const second = new AbortController()
+
+      const requests = [
+        fetcher.get('/api/test', { signal: first.signal }),
+        fetcher.get('/api/test', { signal: second.signal }),
+      ]
+      first.abort()
+      second.abort()
+
+      const results = await Promise.allSettled(requests)
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected'])
+      const networkSignal = mockFetch.mock.calls[0]?.[1]?.signal as AbortSignal
+      expect(networkSignal.aborted).toBe(true)
+    })
+
+    test('raw() supports cancellation', async () => {
+      mockHangingFetch()
+      const controller = new AbortController()
+
+      const request = fetcher.raw('/api/assets/file', { signal: controller.signal })
+      controller.abort()
+
+      await expect(request).rejects.toBeInstanceOf(RequestAbortedError)
+    })
+  })
 })
\ No newline at end of file
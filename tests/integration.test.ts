@@ -329,8 +329,8 @@ describe('VMS SDK Integration', () => {
       expect(result3.count).toBe(1)
       expect(result3.first()).toEqual(MOCK_PUBLIC_CONTENT_ITEM)
 
-      // Each should make its own request due to different cache keys
-      expect(mockFetch).toHaveBeenCalledTimes(3)
+      // Different cache keys, but the identical in-flight GETs share one request
+      expect(mockFetch).toHaveBeenCalledTimes(1)
     })
 
     test('large response handling', async () => {
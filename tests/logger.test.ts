@@ -0,0 +1,152 @@
+/**
+ * Tests for the structured Logger.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Logger, redactHeaders } from '../src/core/logger.js'
+import { Fetcher } from '../src/core/fetcher.js'
+import { createVibeCMS } from '../src/index.js'
+import type { LogEvent } from '../src/types/config.js'
+import {
+  mockFetch,
+  TEST_PROJECT_ID,
+  createMockResponse,
+  createMockErrorResponse,
+  MOCK_PUBLIC_CONTENT_LIST_RESPONSE
+} from './setup.js'
+
+describe('Logger', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('Levels', () => {
+    test('is silent by default', () => {
+      const handler = vi.fn()
+      const logger = new Logger({ handler })
+
+      logger.error('test.error', 'Something failed')
+      logger.debug('test.debug', 'Details')
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    test('emits events at or above the configured level', () => {
+      const handler = vi.fn()
+      const logger = new Logger({ level: 'warn', handler })
+
+      logger.error('test.error', 'Error')
+      logger.warn('test.warn', 'Warning')
+      logger.info('test.info', 'Info')
+      logger.debug('test.debug', 'Debug')
+
+      expect(handler.mock.calls.map(([event]) => event.level)).toEqual(['error', 'warn'])
+    })
+
+    test('emits structured events', () => {
+      const handler = vi.fn()
+      const logger = new Logger({ level: 'debug', handler })
+
+      logger.info('cache.hit', 'Cache hit', { key: 'vms:key' })
+
+      expect(handler).toHaveBeenCalledWith({
+        level: 'info',
+        event: 'cache.hit',
+        message: 'Cache hit',
+        timestamp: expect.any(Number),
+        data: { key: 'vms:key' },
+      })
+    })
+
+    test('writes to the console when no handler is given', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const logger = new Logger({ level: 'warn' })
+
+      logger.warn('test.warn', 'Careful', { value: 1 })
+
+      expect(consoleSpy).toHaveBeenCalledWith('VMS SDK [test.warn]: Careful', { value: 1 })
+    })
+
+    test('ignores errors thrown by the handler', () => {
+      const logger = new Logger({
+        level: 'debug',
+        handler: () => { throw new Error('handler failed') },
+      })
+
+      expect(() => logger.debug('test.debug', 'Debug')).not.toThrow()
+    })
+  })
+
+  describe('redactHeaders', () => {
+    test('redacts authorization-like headers', () => {
+      expect(redactHeaders({
+        'Authorization': 'Bearer secret',
+        'X-Api-Key': 'key',
+        'Cookie': 'session=1',
+        'X-Preview-Token': 'token',
+        'Content-Type': 'application/json',
+      })).toEqual({
+        'Authorization': '[REDACTED]',
+        'X-Api-Key': '[REDACTED]',
+        'Cookie': '[REDACTED]',
+        'X-Preview-Token': '[REDACTED]',
+        'Content-Type': 'application/json',
+      })
+    })
+  })
+
+  describe('SDK integration', () => {
+    test('produces no console output by default', async () => {
+      const spies = (['log', 'debug', 'info', 'warn', 'error'] as const).map(method =>
+        vi.spyOn(console, method).mockImplementation(() => {})
+      )
+      const cms = createVibeCMS({ projectId: TEST_PROJECT_ID })
+
+      mockFetch.mockResolvedValueOnce(createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await cms.collection('blog-posts').first()
+
+      mockFetch.mockResolvedValueOnce(createMockErrorResponse(500, 'Server error'))
+      await expect(cms.collection('pages').first()).rejects.toThrow('Server error')
+
+      spies.forEach(spy => expect(spy).not.toHaveBeenCalled())
+    })
+
+    test('logs request events with redacted headers', async () => {
+      const events: LogEvent[] = []
+      const fetcher = new Fetcher('https://api.vibe-cms.com', {
+        logger: new Logger({ level: 'debug', handler: event => events.push(event) }),
+      })
+
+      mockFetch.mockResolvedValueOnce(createMockResponse({ success: true }))
+      await fetcher.get('/api/test', { headers: { 'Authorization': 'Bearer secret' } })
+
+      const start = events.find(event => event.event === 'request.start')
+      expect(start?.data?.headers).toEqual({
+        'Content-Type': 'application/json',
+        'Authorization': '[REDACTED]',
+      })
+      expect(events.map(event => event.event)).toContain('request.response')
+      expect(JSON.stringify(events)).not.toContain('secret')
+    })
+
+    test('logs cache hits and misses from collection queries', async () => {
+      const events: LogEvent[] = []
+      const cms = createVibeCMS({
+        projectId: TEST_PROJECT_ID,
+        logger: { level: 'debug', handler: event => events.push(event) },
+      })
+
+      mockFetch.mockResolvedValueOnce(createMockResponse(MOCK_PUBLIC_CONTENT_LIST_RESPONSE))
+      await cms.collection('blog-posts').first()
+      await cms.collection('blog-posts').first()
+
+      const cacheEvents = events.filter(event => event.event.startsWith('cache.'))
+      expect(cacheEvents.map(event => event.event)).toEqual(['cache.miss', 'cache.hit'])
+    })
+  })
+})
@@ -0,0 +1,197 @@
+/**
+ * Tests for content manifest checks, against a local stub server.
+ */
+
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { VibeCMSClient } from '../src/core/client.js'
+import { MemoryStorageAdapter } from '../src/core/cache.js'
+import type { ContentManifest } from '../src/types/api.js'
+import type { VibeCMSConfig } from '../src/types/config.js'
+import { mockFetch, TEST_PROJECT_ID } from './setup.js'
+
+/**
+ * Stub API: serves the manifest and one item per collection, and counts
+ * requests per path.
+ */
+let manifest: ContentManifest
+let manifestStatus = 200
+let requests: Map<string, number>
+let server: http.Server
+let baseUrl: string
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname
+    requests.set(path, (requests.get(path) ?? 0) + 1)
+    response.setHeader('Content-Type', 'application/json')
+
+    if (path === `/api/manifest/${TEST_PROJECT_ID}`) {
+      response.statusCode = manifestStatus
+      response.end(JSON.stringify(manifestStatus === 200 ? manifest : { detail: 'Unavailable' }))
+      return
+    }
+
+    const collection = path.split('/')[4]
+    response.end(JSON.stringify([{ id: `${collection}-1`, data: { title: collection }, locale: 'en-US' }]))
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+/**
+ * Send the SDK's requests to the stub server instead of the mocked fetch.
+ */
+function forward(url: string, init: RequestInit = {}): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const request = http.request(url, { method: init.method ?? 'GET', headers: init.headers as Record<string, string> }, response => {
+      const chunks: Buffer[] = []
+      response.on('data', chunk => chunks.push(chunk))
+      response.on('end', () => resolve(new Response(Buffer.concat(chunks).toString(), {
+        status: response.statusCode ?? 500,
+        headers: { 'Content-Type': response.headers['content-type'] ?? 'application/json' },
+      })))
+    })
+    request.on('error', reject)
+    request.end()
+  })
+}
+
+const manifestChecks = () => requests.get(`/api/manifest/${TEST_PROJECT_ID}`) ?? 0
+const collectionRequests = (slug: string) => requests.get(`/api/public/${TEST_PROJECT_ID}/${slug}`) ?? 0
+
+describe('Content Manifest', () => {
+  const clients: VibeCMSClient[] = []
+  let storage: MemoryStorageAdapter
+
+  const createClient = (config: Partial<VibeCMSConfig> = {}) => {
+    const client = new VibeCMSClient({ projectId: TEST_PROJECT_ID, baseUrl, cache: { storage }, ...config })
+    clients.push(client)
+    return client
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockFetch.mockImplementation(forward)
+    manifest = { version: 'v1', collections: { 'blog-posts': 'b1', pages: 'p1' } }
+    manifestStatus = 200
+    requests = new Map()
+    storage = new MemoryStorageAdapter()
+  })
+
+  afterEach(() => {
+    clients.splice(0).forEach(client => client.destroy())
+    vi.restoreAllMocks()
+  })
+
+  test('records the first manifest without invalidating', async () => {
+    const cms = createClient()
+    await cms.collection('blog-posts').first()
+
+    expect(await cms.checkForUpdates()).toBeNull()
+    await cms.collection('blog-posts').first()
+
+    expect(collectionRequests('blog-posts')).toBe(1)
+  })
+
+  test('invalidates only the collections that changed', async () => {
+    const cms = createClient()
+    const onVersion = vi.fn()
+    cms.on('version', onVersion)
+    await cms.collection('blog-posts').first()
+    await cms.collection('pages').first()
+    await cms.checkForUpdates()
+
+    manifest = { version: 'v2', collections: { 'blog-posts': 'b2', pages: 'p1' } }
+    const change = await cms.checkForUpdates()
+
+    expect(change).toEqual({ version: 'v2', previousVersion: 'v1', collections: ['blog-posts'] })
+    expect(onVersion).toHaveBeenCalledWith(change)
+    await cms.collection('blog-posts').first()
+    await cms.collection('pages').first()
+    expect(collectionRequests('blog-posts')).toBe(2)
+    expect(collectionRequests('pages')).toBe(1)
+    expect(await cms.checkForUpdates()).toBeNull()
+  })
+
+  test('invalidates every collection when the manifest lists none', async () => {
+    const cms = createClient()
+    await cms.collection('blog-posts').first()
+    await cms.collection('pages').first()
+    await cms.checkForUpdates()
+
+    manifest = { version: 'v2' }
+    const change = await cms.checkForUpdates()
+
+    expect(change?.collections).toBeNull()
+    await cms.collection('blog-posts').first()
+    await cms.collection('pages').first()
+    expect(collectionRequests('blog-posts')).toBe(2)
+    expect(collectionRequests('pages')).toBe(2)
+  })
+
+  test('compares against the manifest seen before a reload', async () => {
+    const before = createClient()
+    await before.collection('pages').first()
+    await before.checkForUpdates()
+    before.destroy()
+
+    manifest = { version: 'v2', collections: { 'blog-posts': 'b1', pages: 'p2' } }
+    const after = createClient()
+
+    expect(await after.checkForUpdates()).toMatchObject({ previousVersion: 'v1', collections: ['pages'] })
+    await after.collection('pages').first()
+    expect(collectionRequests('pages')).toBe(2)
+  })
+
+  test('checks on start, on an interval and on focus', async () => {
+    createClient({ manifest: { interval: 20 } })
+
+    await vi.waitFor(() => expect(manifestChecks()).toBeGreaterThanOrEqual(2))
+
+    const checks = manifestChecks()
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 10000)
+    window.dispatchEvent(new Event('focus'))
+    await vi.waitFor(() => expect(manifestChecks()).toBeGreaterThan(checks))
+  })
+
+  test('stops polling when destroyed', async () => {
+    const cms = createClient({ manifest: { interval: 20, onFocus: false } })
+    await vi.waitFor(() => expect(manifestChecks()).toBeGreaterThanOrEqual(1))
+
+    cms.destroy()
+    // Let a check sent just before destroying arrive
+    await new Promise(resolve => setTimeout(resolve, 20))
+    const checks = manifestChecks()
+    await new Promise(resolve => setTimeout(resolve, 60))
+
+    expect(manifestChecks()).toBe(checks)
+  })
+
+  test('logs failed background checks and rejects manual ones', async () => {
+    manifestStatus = 503
+    const handler = vi.fn()
+    const cms = createClient({ manifest: { interval: 0 }, logger: { level: 'warn', handler } })
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledWith(expect.objectContaining({ event: 'manifest.failed' })))
+    await expect(cms.checkForUpdates()).rejects.toThrow()
+  })
+
+  test('preview clients do not poll', async () => {
+    const cms = createClient({ manifest: { interval: 20 } })
+    await vi.waitFor(() => expect(manifestChecks()).toBeGreaterThanOrEqual(1))
+    cms.destroy()
+    await new Promise(resolve => setTimeout(resolve, 20))
+
+    const checks = manifestChecks()
+    clients.push(cms.preview('token'))
+    await new Promise(resolve => setTimeout(resolve, 60))
+
+    expect(manifestChecks()).toBe(checks)
+  })
+})
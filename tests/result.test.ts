@@ -327,6 +327,21 @@ describe('CollectionResult', () => {
     })
   })
 
+  describe('Preview Results', () => {
+    test('should not be marked as preview by default', () => {
+      const result = new CollectionResult(mockSingleItem, assetManager)
+
+      expect(result.isPreview).toBe(false)
+    })
+
+    test('should keep the preview flag through filter', () => {
+      const result = new CollectionResult(mockMultipleItems, assetManager, { preview: true })
+
+      expect(result.isPreview).toBe(true)
+      expect(result.filter(item => item.id === 'item-1').isPreview).toBe(true)
+    })
+  })
+
   describe('Serialization', () => {
     test('should serialize to JSON correctly', () => {
       const result = new CollectionResult(mockSingleItem, assetManager)
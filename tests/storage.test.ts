@@ -0,0 +1,267 @@
+/**
+ * Tests for the asynchronous storage adapters.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { BrowserCache } from '../src/core/cache.js'
+import { FileSystemStorageAdapter, IndexedDBStorageAdapter, isQuotaError } from '../src/core/storage.js'
+import { IndexedDBAssetStore } from '../src/core/asset-cache.js'
+import { Logger } from '../src/core/logger.js'
+import type { AsyncStorageAdapter } from '../src/types/cache.js'
+
+/**
+ * Minimal in-memory IDBFactory covering what IndexedDBStorageAdapter uses.
+ */
+const createFakeIndexedDB = () => {
+  const stores = new Map<string, Map<string, unknown>>()
+
+  const respond = <T>(result: () => T) => {
+    const request: any = {}
+    setTimeout(() => {
+      request.result = result()
+      request.onsuccess?.()
+    })
+    return request
+  }
+
+  const database = {
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    transaction: (name: string) => ({
+      objectStore: () => {
+        const store = stores.get(name)!
+        return {
+          get: (key: string) => respond(() => store.get(key)),
+          put: (value: unknown, key: string) => respond(() => void store.set(key, value)),
+          delete: (key: string) => respond(() => void store.delete(key)),
+          getAllKeys: () => respond(() => Array.from(store.keys())),
+        }
+      },
+    }),
+  }
+
+  const open = vi.fn(() => {
+    const request: any = { result: database }
+    setTimeout(() => {
+      request.onupgradeneeded?.()
+      request.onsuccess?.()
+    })
+    return request
+  })
+
+  return { open } as unknown as IDBFactory
+}
+
+/**
+ * Async adapter over a Map, standing in for a remote key-value store.
+ */
+const createAsyncAdapter = (): AsyncStorageAdapter & { items: Map<string, string> } => {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: async key => items.get(key) ?? null,
+    setItem: async (key, value) => void items.set(key, value),
+    removeItem: async key => void items.delete(key),
+    clear: async () => items.clear(),
+    keys: async () => Array.from(items.keys()),
+  }
+}
+
+describe('Async Storage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('BrowserCache with an async adapter', () => {
+    test('stores and reads entries', async () => {
+      const adapter = createAsyncAdapter()
+      const cache = new BrowserCache({ storage: adapter })
+
+      await cache.set('vms@2:proj:en-US:posts:first', { title: 'Async' })
+
+      expect(adapter.items.has('vms@2:proj:en-US:posts:first')).toBe(true)
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toEqual({ title: 'Async' })
+    })
+
+    test('respects TTL', async () => {
+      const adapter = createAsyncAdapter()
+      const cache = new BrowserCache({ storage: adapter, ttl: 1000 })
+      await cache.set('vms@2:proj:en-US:posts:first', 'data')
+
+      const now = Date.now()
+      vi.spyOn(Date, 'now').mockReturnValue(now + 2000)
+
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toBeNull()
+      expect(adapter.items.size).toBe(0)
+    })
+
+    test('cleanup removes expired entries', async () => {
+      const adapter = createAsyncAdapter()
+      const cache = new BrowserCache({ storage: adapter, ttl: 1000 })
+      await cache.set('vms@2:proj:en-US:posts:first', 'old')
+      await cache.set('vms@2:proj:en-US:posts:many', 'new', 60000)
+
+      const now = Date.now()
+      vi.spyOn(Date, 'now').mockReturnValue(now + 2000)
+      await cache.cleanup()
+
+      expect(await cache.keys()).toEqual(['vms@2:proj:en-US:posts:many'])
+    })
+
+    test('clearLocaleCache removes only that locale', async () => {
+      const adapter = createAsyncAdapter()
+      const cache = new BrowserCache({ storage: adapter })
+      await cache.set('vms@2:proj:en-US:posts:first', 'en')
+      await cache.set('vms@2:proj:fr-FR:posts:first', 'fr')
+
+      await cache.clearLocaleCache('proj', 'fr-FR')
+
+      expect(await cache.keys()).toEqual(['vms@2:proj:en-US:posts:first'])
+    })
+  })
+
+  describe('IndexedDBStorageAdapter', () => {
+    test('round-trips items through the object store', async () => {
+      const factory = createFakeIndexedDB()
+      const adapter = new IndexedDBStorageAdapter({ indexedDB: factory })
+
+      await adapter.setItem('vms@2:one', 'first')
+      await adapter.setItem('other', 'kept')
+
+      expect(await adapter.getItem('vms@2:one')).toBe('first')
+      expect(await adapter.getItem('missing')).toBeNull()
+      expect(await adapter.keys()).toEqual(['vms@2:one', 'other'])
+
+      await adapter.clear()
+
+      expect(await adapter.keys()).toEqual(['other'])
+      expect(factory.open).toHaveBeenCalledTimes(1)
+      expect(factory.open).toHaveBeenCalledWith('vibe-cms', 1)
+    })
+
+    test('works as BrowserCache storage', async () => {
+      const cache = new BrowserCache({ storage: new IndexedDBStorageAdapter({ indexedDB: createFakeIndexedDB() }) })
+
+      await cache.set('vms@2:proj:en-US:posts:first', [1, 2, 3])
+
+      expect(await cache.get('vms@2:proj:en-US:posts:first')).toEqual([1, 2, 3])
+    })
+
+    test('stores binary assets without encoding', async () => {
+      const store = new IndexedDBAssetStore(createFakeIndexedDB())
+      const data = new Uint8Array([7, 8, 9]).buffer
+
+      await store.put('vms@2:proj:en-US:asset:asset-download:img', {
+        data,
+        contentType: 'image/png',
+        contentLength: 3,
+        timestamp: 1,
+        ttl: 1000,
+      })
+
+      expect((await store.get('vms@2:proj:en-US:asset:asset-download:img'))?.data).toBe(data)
+      expect(await store.keys()).toEqual(['vms@2:proj:en-US:asset:asset-download:img'])
+    })
+
+    test('degrades to a miss when IndexedDB is unavailable', async () => {
+      const adapter = new IndexedDBStorageAdapter({ indexedDB: undefined as unknown as IDBFactory })
+
+      await expect(adapter.setItem('vms@2:one', 'first')).rejects.toThrow()
+
+      expect(await adapter.getItem('vms@2:one')).toBeNull()
+      expect(await adapter.keys()).toEqual([])
+    })
+
+    test('failed writes are logged by the cache', async () => {
+      const handler = vi.fn()
+      const consoleSpy = vi.spyOn(console, 'warn')
+      const adapter = new IndexedDBStorageAdapter({ indexedDB: undefined as unknown as IDBFactory })
+      const cache = new BrowserCache({ storage: adapter }, { logger: new Logger({ level: 'warn', handler }) })
+
+      await cache.set('vms@2:one', 'first')
+
+      expect(await cache.get('vms@2:one')).toBeNull()
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ event: 'cache.write_failed', data: expect.objectContaining({ key: 'vms@2:one' }) }))
+      expect(consoleSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('isQuotaError', () => {
+    test('recognizes quota errors from browsers and the filesystem', () => {
+      expect(isQuotaError(new DOMException('Full', 'QuotaExceededError'))).toBe(true)
+      expect(isQuotaError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(true)
+      expect(isQuotaError(Object.assign(new Error('No space'), { code: 'ENOSPC' }))).toBe(true)
+      expect(isQuotaError(new Error('Storage quota exceeded'))).toBe(false)
+      expect(isQuotaError(undefined)).toBe(false)
+    })
+
+    test('filesystem adapter surfaces full disks to the cache', async () => {
+      const enospc = Object.assign(new Error('No space left on device'), { code: 'ENOSPC' })
+      const adapter = new FileSystemStorageAdapter({
+        directory: '/cache',
+        fs: { ...fs, mkdir: async () => undefined, writeFile: () => Promise.reject(enospc) },
+      })
+
+      await expect(adapter.setItem('vms@2:one', '1')).rejects.toBe(enospc)
+    })
+  })
+
+  describe('FileSystemStorageAdapter', () => {
+    let directory: string
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vms-cache-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    test('writes one file per key and creates the directory', async () => {
+      const adapter = new FileSystemStorageAdapter({ directory: path.join(directory, 'nested'), fs })
+
+      await adapter.setItem('vms@2:proj:en-US:posts:first:@editor', 'value')
+
+      expect(await adapter.getItem('vms@2:proj:en-US:posts:first:@editor')).toBe('value')
+      expect(await adapter.keys()).toEqual(['vms@2:proj:en-US:posts:first:@editor'])
+      const files = await fs.readdir(path.join(directory, 'nested'))
+      expect(files).toHaveLength(1)
+      expect(files[0]).not.toContain(':')
+    })
+
+    test('reports nothing before the first write', async () => {
+      const adapter = new FileSystemStorageAdapter({ directory: path.join(directory, 'missing'), fs })
+
+      expect(await adapter.getItem('vms@2:one')).toBeNull()
+      expect(await adapter.keys()).toEqual([])
+      await expect(adapter.removeItem('vms@2:one')).resolves.toBeUndefined()
+    })
+
+    test('clear removes only VMS entries', async () => {
+      const adapter = new FileSystemStorageAdapter({ directory, fs })
+      await fs.writeFile(path.join(directory, 'notes.txt'), 'unrelated')
+      await adapter.setItem('vms@2:one', '1')
+      await adapter.setItem('other', '2')
+
+      await adapter.clear()
+
+      expect(await adapter.keys()).toEqual(['other'])
+      expect(await fs.readdir(directory)).toContain('notes.txt')
+    })
+
+    test('persists entries across cache instances', async () => {
+      const first = new BrowserCache({ storage: new FileSystemStorageAdapter({ directory, fs }) })
+      await first.set('vms@2:proj:en-US:posts:many', [{ id: 1 }])
+
+      const second = new BrowserCache({ storage: new FileSystemStorageAdapter({ directory, fs }) })
+
+      expect(await second.get('vms@2:proj:en-US:posts:many')).toEqual([{ id: 1 }])
+    })
+  })
+})